@@ -1,5 +1,9 @@
-import KeyStore, { EncodedCiphertext, KeyAgreementKeyPair, KeyId, PasswordKey, RecipientKey, StoredKey, SymmetricKey } from "./KeyStore"
+import KeyStore, { BDPParameterError, EncodedCiphertext, KeyAgreementKeyPair, KeyId, PasswordKey, RecipientKey, SenderInfo, StoredKey, SymmetricKey } from "./KeyStore"
 import { ProtectedFieldOptions } from "./ProtectedFieldOptions"
+import { decodeFileCiphertext, encodeFileCiphertext } from "./ciphertextFormat"
+import { InvalidValueError, getErrorCode } from "./errors"
+import { deserializeValue } from "./utils"
+import { decryptForDisplay } from "./valueDisplay"
 
 /**
  * Internal version of the protected field. Used in the popup, ISOLATED content, and service worker context.
@@ -12,8 +16,16 @@ export default class InternalProtectedField {
   options: ProtectedFieldOptions
   ciphertextValue: null | string
   othersPublicKey?: KeyAgreementKeyPair
+  // in the group-key-agreement distribution mode, the public keys of all other participants
+  othersPublicKeys: KeyAgreementKeyPair[] = []
   ownPublicKeyId?: string
+  // in the group-key-agreement distribution mode, the group key distributed by another participant
+  groupKey?: string
   fieldTabId: number | null = null
+  // whether the ciphertext reflects the newest changes of the user in the editor. Forms containing a field that is not fresh cannot be submitted.
+  ciphertextFresh = true
+  // functions are not part of the serialized field
+  private clickListener: ((event: MouseEvent) => void) | null = null
 
   constructor(fieldId: number, origin: string, element: HTMLElement, options: ProtectedFieldOptions, ciphertextValue: null | string = null) {
     this.fieldId = fieldId
@@ -23,50 +35,285 @@ export default class InternalProtectedField {
     this.ciphertextValue = ciphertextValue
   }
 
-  sendFieldCreated() {
-    this.sendMessage({
+  /**
+   * Restore a field received from the service worker.
+   * Chrome uses JSON serialization for messages, which makes a native object of the InternalProtectedField.
+   */
+  static async deserialize(field: any): Promise<InternalProtectedField> {
+    const newField = new InternalProtectedField(field.fieldId, field.origin, field.element, field.options, field.ciphertextValue)
+    Object.assign(newField, field)
+    if (newField.othersPublicKey !== undefined) {
+      newField.othersPublicKey = await deserializeValue(newField.othersPublicKey) as KeyAgreementKeyPair
+    }
+    newField.othersPublicKeys = await Promise.all(newField.othersPublicKeys.map(async publicKey => await deserializeValue(publicKey) as KeyAgreementKeyPair))
+    return newField
+  }
+
+  /**
+   * Notify the service worker about this field.
+   * Resolves once the field is part of the tab state, i.e., it can be requested by the extension frame.
+   */
+  async sendFieldCreated() {
+    await this.sendMessage({
       operation: 'fieldCreated',
     })
   }
 
+  /**
+   * Render the extension frame that displays the decrypted value of this field into the element (display option).
+   * The web application cannot access the contents of the frame.
+   */
+  renderDisplayFrame() {
+    const frame = document.createElement('iframe')
+    frame.src = chrome.runtime.getURL(`frame/frame.html?field=${this.fieldId}`)
+    frame.classList.add('bdpfield-frame')
+    this.element.replaceChildren(frame)
+  }
+
   addClickListener() {
-    this.element.addEventListener('click', event => {
+    this.clickListener = async event => {
+      // clicks dispatched by the web application must not open the inline editor
+      if (this.options.editor === 'inline' && !event.isTrusted) {
+        return
+      }
       this.sendMessage({
         operation: 'closePopup'
       })
       if (this.element.classList.contains('editActive')) {
-        this.element.classList.remove('editActive')
+        InternalProtectedField.clearAllActiveFields()
         this.sendMessage({
           operation: 'stopEdit',
         })
       } else {
         InternalProtectedField.clearAllActiveFields()
         this.element.classList.add('editActive')
-        this.sendMessage({
+        const response = await this.sendMessage({
           operation: 'startEdit',
         })
+        if (this.options.editor === 'inline') {
+          this.renderEditorFrame(response.editorToken)
+        }
       }
+    }
+    this.element.addEventListener('click', this.clickListener)
+  }
+
+  /**
+   * Remove the click listener and the frames of this field after it was destroyed by the web application or its element was removed.
+   * Propagates to the service worker.
+   * Called from the content script.
+   */
+  async destroy() {
+    if (this.clickListener !== null) {
+      this.element.removeEventListener('click', this.clickListener)
+      this.clickListener = null
+    }
+    if (this.element.classList.contains('editActive')) {
+      InternalProtectedField.clearAllActiveFields()
+    }
+    this.element.classList.remove('bdpfield-stale')
+    this.element.querySelector(':scope > .bdpfield-frame')?.remove()
+    await this.sendMessage({
+      operation: 'fieldDestroyed',
+    })
+  }
+
+  /**
+   * Mark this field as active after it was selected in the browser action popup, and scroll to and highlight its element.
+   * Called from the content script.
+   */
+  select() {
+    InternalProtectedField.clearAllActiveFields()
+    this.element.classList.add('editActive')
+    this.element.scrollIntoView({
+      block: 'center',
+      behavior: 'smooth',
     })
+    this.element.classList.add('bdpfield-highlight')
+    window.setTimeout(() => this.element.classList.remove('bdpfield-highlight'), 2000)
+  }
+
+  /**
+   * Show the extension frame to edit the value of this field below the element (inline editor option).
+   * The frame is not part of the element, as clicks within the frame must not toggle the editing state.
+   * The editor token is issued by the service worker when the editing starts, see State.issueEditorToken.
+   */
+  renderEditorFrame(editorToken: string) {
+    const rect = this.element.getBoundingClientRect()
+    const frame = document.createElement('iframe')
+    frame.src = chrome.runtime.getURL(`frame/frame.html?edit=${this.fieldId}&token=${editorToken}`)
+    frame.classList.add('bdpfield-editor')
+    frame.style.top = `${rect.bottom + window.scrollY}px`
+    frame.style.left = `${rect.left + window.scrollX}px`
+    document.body.appendChild(frame)
+  }
+
+  /**
+   * Get the ciphertext that is encrypted with the key of this field.
+   * For files, this is the header with the file key, as the chunks are encrypted with the file key.
+   * Throws an InvalidCiphertextError if the ciphertext of a file is invalid.
+   */
+  getValueCiphertext(): EncodedCiphertext | null {
+    if (this.ciphertextValue === null || this.options.inputType !== 'file') {
+      return this.ciphertextValue
+    }
+    return decodeFileCiphertext(this.ciphertextValue).header
+  }
+
+  /**
+   * Whether a key to decrypt the value of this field is available in the key store. Returns null if the field has no value.
+   * A value that cannot be decrypted because it is invalid is reported as not available.
+   */
+  isKeyAvailable(keyStore: KeyStore): boolean | null {
+    if (this.ciphertextValue === null) {
+      return null
+    }
+    try {
+      return keyStore.hasDecryptionKey(this.getValueCiphertext()!, this.options.protectionMode, this.origin)
+    } catch (e) {
+      if (!(e instanceof BDPParameterError)) {
+        throw e
+      }
+      return false
+    }
+  }
+
+  /**
+   * Check that a plaintext matches the input type of this field. An empty value is always valid.
+   * Throws an InvalidValueError otherwise.
+   */
+  validatePlaintext(plaintext: string) {
+    // the plaintext of files is created by the extension
+    if (plaintext === '' || this.options.inputType === 'file') {
+      return
+    }
+    switch (this.options.inputType) {
+      case 'number':
+        if (plaintext.trim() === '' || !Number.isFinite(Number(plaintext))) {
+          throw new InvalidValueError('The value is not a number.')
+        }
+        break
+      case 'date':
+        // the round trip rejects dates that do not exist, e.g., 2023-02-31
+        const date = new Date(plaintext)
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(plaintext) || isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== plaintext) {
+          throw new InvalidValueError('The value is not a date.')
+        }
+        break
+      case 'email':
+        if (!/^[^\s@]+@[^\s@]+$/.test(plaintext)) {
+          throw new InvalidValueError('The value is not an email address.')
+        }
+        break
+      case 'select':
+        if (!this.options.selectOptions?.includes(plaintext)) {
+          throw new InvalidValueError('The value is not one of the options of this field.')
+        }
+        break
+    }
   }
 
   /**
    * Encrypt a plaintext using the options of this field and the provided key, returning the ciphertext.
+   * For the recipient protection mode, the list of recipient keys is provided instead of a single key.
    * Does not store the plaintext.
    * Called from the browser action popup.
    */
-  async encryptNewValue(plaintext: string, key: StoredKey, keyStore: KeyStore): Promise<EncodedCiphertext | [RecipientKey, EncodedCiphertext]> {
+  async encryptNewValue(plaintext: string, key: StoredKey | RecipientKey[], keyStore: KeyStore): Promise<EncodedCiphertext | [RecipientKey, EncodedCiphertext]> {
+    const context = this.options.context ?? null
     switch (this.options.protectionMode) {
       case 'symmetric':
-        return await keyStore.encryptWithSymmetricKey(plaintext, key as SymmetricKey, this.origin)
+        return await keyStore.encryptWithSymmetricKey(plaintext, key as SymmetricKey, this.origin, context)
       case 'password':
-        return await keyStore.encryptWithPasswordKey(plaintext, key as PasswordKey, this.origin)
+        return await keyStore.encryptWithPasswordKey(plaintext, key as PasswordKey, this.origin, context)
       case 'recipient':
-        return await keyStore.encryptWithRecipientKey(plaintext, key as RecipientKey, this.origin)
+        return await keyStore.encryptWithRecipientKey(plaintext, key as RecipientKey[], this.origin, context)
       default:
         throw new Error(`Invalid protectionMode '${this.options.protectionMode}'`)
     }
   }
 
+  /**
+   * Decrypt the value of this field for display. Returns null if the field has no value.
+   * Otherwise, returns the plaintext and the sender of the value (recipient protection mode only), see decryptForDisplay.
+   * Throws a BDPParameterError if the value cannot be decrypted.
+   * Called from the extension frame.
+   */
+  async decryptValueForDisplay(keyStore: KeyStore): Promise<[string, SenderInfo | null] | null> {
+    if (this.ciphertextValue === null) {
+      return null
+    }
+    return await decryptForDisplay(this.ciphertextValue, this.origin, this.options, keyStore)
+  }
+
+  /**
+   * Re-encrypt the value of this field if its key has been rotated (or, for password keys, upgraded), and propagate the new value.
+   * Returns whether the value was re-encrypted. Values that cannot be decrypted and values of read-only fields are left untouched.
+   * Called from the browser action popup.
+   */
+  async reencryptValue(keyStore: KeyStore): Promise<boolean> {
+    if (this.ciphertextValue === null || this.options.readOnly) {
+      return false
+    }
+    const oldCiphertext = this.ciphertextValue
+    const context = this.options.context ?? null
+    let newCiphertext: EncodedCiphertext | null
+    try {
+      // for files, only the header with the file key needs to be re-encrypted
+      const oldValueCiphertext = this.getValueCiphertext()!
+      switch (this.options.protectionMode) {
+        case 'symmetric':
+          newCiphertext = await keyStore.reencryptWithSymmetricKey(oldValueCiphertext, this.origin, context)
+          break
+        case 'recipient':
+          newCiphertext = await keyStore.reencryptWithRecipientKey(oldValueCiphertext, this.origin, context)
+          break
+        case 'password':
+          // password keys are not rotated, but upgraded to stronger key derivation parameters
+          newCiphertext = await keyStore.reencryptWithPasswordKey(oldValueCiphertext, this.origin, context)
+          break
+        default:
+          return false
+      }
+      if (newCiphertext !== null && this.options.inputType === 'file') {
+        newCiphertext = encodeFileCiphertext({
+          header: newCiphertext,
+          chunks: decodeFileCiphertext(oldCiphertext).chunks,
+        })
+      }
+    } catch (e) {
+      if (!(e instanceof BDPParameterError)) {
+        throw e
+      }
+      return false
+    }
+    if (newCiphertext === null) {
+      return false
+    }
+
+    await this.propagateNewValue(newCiphertext)
+    await this.sendApiMessage({
+      operation: 'ciphertextReencrypted',
+      fieldId: this.fieldId,
+      newCiphertext,
+      oldCiphertext,
+    })
+    return true
+  }
+
+  /**
+   * Report an error to the web application, e.g., if the ciphertext it provided cannot be decrypted.
+   * Only the error code and message are shared with the web application.
+   */
+  async reportError(error: Error) {
+    await this.sendApiMessage({
+      operation: 'reportError',
+      fieldId: this.fieldId,
+      code: getErrorCode(error),
+      message: error.message,
+    })
+  }
+
   /**
    * Updates the ciphertextValue on this field. Can be used to clear the value.
    * Propagates the change to the content script.
@@ -76,23 +323,10 @@ export default class InternalProtectedField {
     this.ciphertextValue = value
 
     // Send message to the API script.
-    if (this.fieldTabId === null) {
-      throw new Error(`InternalProtectedField ${this.fieldId} has no tabId`)
-    }
-    await chrome.scripting.executeScript({
-      func: (fieldId: number, ciphertextValue: string | null) => {
-        // @ts-expect-error
-        window._bdp_internal_message({
-          operation: 'updateCiphertext',
-          fieldId,
-          ciphertextValue,
-        })
-      },
-      args: [this.fieldId, this.ciphertextValue],
-      target: {
-        tabId: this.fieldTabId,
-      },
-      world: 'MAIN'
+    await this.sendApiMessage({
+      operation: 'updateCiphertext',
+      fieldId: this.fieldId,
+      ciphertextValue: this.ciphertextValue,
     })
 
     // Send message to service worker (tab state)
@@ -105,6 +339,34 @@ export default class InternalProtectedField {
     })
   }
 
+  /**
+   * Propagate whether the ciphertext provided to the web application reflects the newest changes of the user.
+   * Called from the browser action popup and the inline editor.
+   */
+  async propagateCiphertextFresh(ciphertextFresh: boolean) {
+    this.ciphertextFresh = ciphertextFresh
+
+    // Send message to service worker (tab state), which forwards it to the content script
+    await chrome.runtime.sendMessage({
+      context: 'bdp',
+      operation: 'updateCiphertextFresh',
+      tabId: this.fieldTabId,
+      fieldId: this.fieldId,
+      ciphertextFresh,
+    })
+  }
+
+  /**
+   * Update whether the ciphertext of this field is fresh. A field that becomes fresh no longer blocks the submission of its form.
+   * Called from the content script.
+   */
+  setCiphertextFresh(ciphertextFresh: boolean) {
+    this.ciphertextFresh = ciphertextFresh
+    if (ciphertextFresh) {
+      this.element.classList.remove('bdpfield-stale')
+    }
+  }
+
   /**
    * Set a ciphertext value for this field.
    * Called from the content script upon receiving a request from the web application.
@@ -124,11 +386,7 @@ export default class InternalProtectedField {
    * Propagates to the service worker.
    */
   async setPublicKeyData(othersPublicKey: string, ownPublicKeyId?: string) {
-    try {
-      this.othersPublicKey = await (new KeyStore()).loadOthersKeyAgreementPublicKey(othersPublicKey)
-    } catch {
-      console.warn('Invalid (other\'s) public key received.')
-    }
+    await InternalProtectedField.addOthersPublicKey(this, othersPublicKey)
     this.ownPublicKeyId = ownPublicKeyId
     this.sendMessage({
       operation: 'setPublicKeyData',
@@ -137,6 +395,38 @@ export default class InternalProtectedField {
     })
   }
 
+  /**
+   * Set the group key distributed by another participant of a group key agreement.
+   * Called from the content script upon receiving a request from the web application.
+   * Propagates to the service worker.
+   */
+  async setGroupKeyData(groupKey: string) {
+    this.groupKey = groupKey
+    this.sendMessage({
+      operation: 'setGroupKeyData',
+      groupKey,
+    })
+  }
+
+  /**
+   * Add the public key of another party to a field, which may also be a field of the tab state that is not an instance of this class.
+   * In the group-key-agreement distribution mode, the public keys of all participants are collected. Otherwise, the key replaces the previous one.
+   */
+  static async addOthersPublicKey(field: InternalProtectedField, othersPublicKey: string, keyStore = new KeyStore()) {
+    let publicKey: KeyAgreementKeyPair
+    try {
+      publicKey = await keyStore.loadOthersKeyAgreementPublicKey(othersPublicKey)
+    } catch {
+      console.warn('Invalid (other\'s) public key received.')
+      return
+    }
+    if (field.options.distributionMode !== 'group-key-agreement') {
+      field.othersPublicKey = publicKey
+    } else if (!field.othersPublicKeys.some(key => key.keyId === publicKey.keyId)) {
+      field.othersPublicKeys.push(publicKey)
+    }
+  }
+
   /**
    * Propagate a generated public key for key agreement to this field.
    * Propagates the key to the content script.
@@ -146,24 +436,11 @@ export default class InternalProtectedField {
     this.ownPublicKeyId = publicKeyId
 
     // Send message to the API script.
-    if (this.fieldTabId === null) {
-      throw new Error(`InternalProtectedField ${this.fieldId} has no tabId`)
-    }
-    await chrome.scripting.executeScript({
-      func: (fieldId: number, publicKey: string, publicKeyId: string) => {
-        // @ts-expect-error
-        window._bdp_internal_message({
-          operation: 'providePublicKey',
-          fieldId,
-          publicKey,
-          publicKeyId,
-        })
-      },
-      args: [this.fieldId, publicKey, publicKeyId],
-      target: {
-        tabId: this.fieldTabId,
-      },
-      world: 'MAIN'
+    await this.sendApiMessage({
+      operation: 'providePublicKey',
+      fieldId: this.fieldId,
+      publicKey,
+      publicKeyId,
     })
 
     // Send message to service worker (tab state)
@@ -177,17 +454,54 @@ export default class InternalProtectedField {
   }
 
   /**
-   * Clear (selection of) all active fields.
+   * Propagate a group key distributed to the other participants of a group key agreement to this field.
+   * The web application relays it to the other participants, see setGroupKeyData.
+   * Called from the browser action popup.
+   */
+  async propagateGroupKey(groupKey: string) {
+    await this.sendApiMessage({
+      operation: 'provideGroupKey',
+      fieldId: this.fieldId,
+      groupKey,
+    })
+  }
+
+  /**
+   * Clear (selection of) all active fields and close open inline editors.
    */
   static clearAllActiveFields() {
     const allFields = document.getElementsByClassName('bdpfield')
     for (let i = 0; i < allFields.length; i++) {
       allFields[i].classList.remove('editActive')
     }
+    const editorFrames = document.querySelectorAll('.bdpfield-editor')
+    for (let i = 0; i < editorFrames.length; i++) {
+      editorFrames[i].remove()
+    }
+  }
+
+  /**
+   * Send a message to the API script in the MAIN world of this field's tab.
+   */
+  private async sendApiMessage(message: object) {
+    if (this.fieldTabId === null) {
+      throw new Error(`InternalProtectedField ${this.fieldId} has no tabId`)
+    }
+    await chrome.scripting.executeScript({
+      func: (message: object) => {
+        // @ts-expect-error
+        window._bdp_internal_message(message)
+      },
+      args: [message],
+      target: {
+        tabId: this.fieldTabId,
+      },
+      world: 'MAIN'
+    })
   }
 
   private sendMessage(data: object) {
-    chrome.runtime.sendMessage(Object.assign({
+    return chrome.runtime.sendMessage(Object.assign({
       context: 'bdp',
       internalProtectedField: this,
     }, data))
@@ -0,0 +1,131 @@
+import KeyStore, { BDPParameterError, RecipientKey, SenderInfo } from './KeyStore'
+import { ProtectedFieldOptions } from './ProtectedFieldOptions'
+import { decryptForDisplay, loadRecipientPublicKeys } from './valueDisplay'
+
+/**
+ * A decrypted value of a list, or the error message if the value could not be decrypted.
+ * For the recipient protection mode, the sender of the value is provided to show its status.
+ */
+export interface DisplayedListValue {
+  plaintext: string | null
+  sender: SenderInfo | null
+  error: string | null
+}
+
+/**
+ * Internal version of the protected list. Used in the ISOLATED content, the service worker, and the extension frame context.
+ * These are NEVER exposed to the main (not isolated) world.
+ */
+export default class InternalProtectedList {
+  listId: number
+  origin: string
+  element: HTMLElement
+  options: ProtectedFieldOptions
+  ciphertextValues: (null | string)[]
+  listTabId: number | null = null
+
+  constructor(listId: number, origin: string, element: HTMLElement, options: ProtectedFieldOptions, ciphertextValues: (null | string)[] = []) {
+    this.listId = listId
+    this.origin = origin
+    this.element = element
+    this.options = options
+    this.ciphertextValues = ciphertextValues
+  }
+
+  /**
+   * Restore a list received from the service worker.
+   */
+  static deserialize(list: any): InternalProtectedList {
+    const newList = new InternalProtectedList(list.listId, list.origin, list.element, list.options, list.ciphertextValues)
+    Object.assign(newList, list)
+    return newList
+  }
+
+  /**
+   * Notify the service worker about this list.
+   * Resolves once the list is part of the tab state, i.e., it can be requested by the extension frame.
+   */
+  async sendListCreated() {
+    await this.sendMessage({
+      operation: 'listCreated',
+    })
+  }
+
+  /**
+   * Render the extension frame that displays the values of this list into the element.
+   * The web application cannot access the contents of the frame.
+   */
+  renderFrame() {
+    const frame = document.createElement('iframe')
+    frame.src = chrome.runtime.getURL(`frame/frame.html?list=${this.listId}`)
+    frame.classList.add('bdplist-frame')
+    this.element.replaceChildren(frame)
+  }
+
+  /**
+   * Remove the frame of this list after it was destroyed by the web application or its element was removed.
+   * Propagates to the service worker.
+   * Called from the content script.
+   */
+  async destroy() {
+    this.element.querySelector(':scope > .bdplist-frame')?.remove()
+    await this.sendMessage({
+      operation: 'listDestroyed',
+    })
+  }
+
+  /**
+   * Set the ciphertext values of this list.
+   * Called from the content script upon receiving a request from the web application.
+   * Propagates to the service worker.
+   */
+  async setCiphertextValues(ciphertextValues: (null | string)[]) {
+    this.ciphertextValues = ciphertextValues
+    await this.sendMessage({
+      operation: 'setListCiphertexts',
+      ciphertextValues,
+    })
+  }
+
+  /**
+   * Decrypt all values of this list for display.
+   * Values that cannot be decrypted are reported individually.
+   * Called from the extension frame.
+   */
+  async decryptValues(keyStore: KeyStore): Promise<DisplayedListValue[]> {
+    let recipientKeys: RecipientKey[] | undefined = undefined
+    if (this.options.protectionMode === 'recipient' && this.options.distributionMode === 'direct-plain') {
+      recipientKeys = await loadRecipientPublicKeys(this.options)
+    }
+
+    const values: DisplayedListValue[] = []
+    for (let i = 0; i < this.ciphertextValues.length; i++) {
+      const ciphertext = this.ciphertextValues[i]
+      if (ciphertext === null) {
+        values.push({ plaintext: null, sender: null, error: null })
+        continue
+      }
+      try {
+        const [plaintext, sender] = await decryptForDisplay(ciphertext, this.origin, this.options, keyStore, recipientKeys)
+        values.push({
+          plaintext,
+          sender,
+          error: null,
+        })
+      } catch (e) {
+        if (!(e instanceof BDPParameterError)) {
+          throw e
+        }
+        values.push({ plaintext: null, sender: null, error: e.message })
+      }
+    }
+    return values
+  }
+
+  private async sendMessage(data: object) {
+    await chrome.runtime.sendMessage(Object.assign({
+      context: 'bdp',
+      internalProtectedList: this,
+    }, data))
+  }
+}
\ No newline at end of file
@@ -1,5 +1,12 @@
 import { reactive, toRaw } from 'vue'
-import { SerializedKey, bufferFromBase64, bufferToBase64, deriveKeyId, deserializeKey, deserializeValue, deserializeValues, serializeKey, serializeValue, serializeValues } from './utils'
+import { SerializedKey, bufferFromBase64, bufferToBase64, bufferToHex, deriveKeyId, deserializeKey, deserializeValue, deserializeValues, serializeKey, serializeValue, serializeValues } from './utils'
+import { BDPParameterError, ContextMismatchError, DisallowedKeyError, InvalidCiphertextError, KeyMissingError, KeyStoreLockedError, OriginConfirmationRequiredError } from './errors'
+import { ProtectedFieldOptions } from './ProtectedFieldOptions'
+import { isOriginAllowed, validateAllowedOrigins } from './originPolicy'
+import { DEFAULT_PASSWORD_KDF, LEGACY_PASSWORD_KDF, PasswordKdfParameters, derivePasswordKey, isSamePasswordKdf, meetsPasswordKdfPolicy, parsePasswordKdf } from './passwordKdf'
+import { CiphertextData, RecipientCiphertextData, decodePasswordCiphertext, decodeRecipientCiphertext, decodeSymmetricCiphertext, encodePasswordCiphertext, encodeRecipientCiphertext, encodeAdditionalData, encodeSymmetricCiphertext } from './ciphertextFormat'
+
+export { BDPParameterError, ContextMismatchError, DisallowedKeyError, InvalidCiphertextError, KeyMissingError, KeyStoreLockedError, OriginConfirmationRequiredError }
 
 export const keyTypes = [
   // [keyType, keyText, keyTextAdjective (used with the word "key" appended), keyDescription]
@@ -19,18 +26,45 @@ export interface StoredKey {
   shortDescription: string
   created: Date
   lastUsed: null | Date
+  // origins and origin patterns, see originPolicy.ts
   allowedOrigins: string[]
   previouslyUsedOnOrigins: string[]
+  // ask the user before the key is used on an (allowed) origin that is not in previouslyUsedOnOrigins
+  confirmNewOrigins?: boolean
+  // set when the key was rotated, i.e., replaced by a successor key with the specified key id
+  supersededBy?: KeyId
+  // expired and revoked keys are not used to encrypt new values, but still decrypt existing values, see getKeyStatus
+  expiresAt?: Date
+  // the time of the revocation
+  revoked?: Date
+}
+
+/**
+ * The validity of a key. Only valid keys are used to encrypt new values.
+ */
+export function getKeyStatus(key: StoredKey): 'valid' | 'expired' | 'revoked' {
+  if (key.revoked !== undefined) {
+    return 'revoked'
+  }
+  if (key.expiresAt !== undefined && key.expiresAt.valueOf() <= Date.now()) {
+    return 'expired'
+  }
+  return 'valid'
 }
 
 export interface SymmetricKey extends StoredKey {
   key: CryptoKey
-  distributionMode: 'user-only' | 'external' | 'key-agreement'
+  distributionMode: 'user-only' | 'external' | 'key-agreement' | 'group-key-agreement'
+  // key-agreement keys only: the short authentication string (hex) the user has to compare with the other party before the key can be used.
+  // Undefined once the user confirmed that both parties see the same string, see confirmKeyAgreement.
+  unconfirmedSas?: string
 }
 
 export interface PasswordKey extends StoredKey {
   key: CryptoKey
   salt: string
+  // the parameters the key was derived with. Keys stored before the parameters were recorded use LEGACY_PASSWORD_KDF.
+  kdf?: PasswordKdfParameters
 }
 export function isPasswordKey(key: StoredKey): key is PasswordKey {
   return 'salt' in key
@@ -54,11 +88,49 @@ export interface RecipientKey extends StoredKey {
     publicKey: CryptoKey
     signature: EncodedValueAndSignature
   }
+  // whether the user verified the key id with the key owner, see keyVerification.ts. Keys with private keys are the user's own keys and need no verification.
+  verified?: boolean
+  // per-origin key pairs only: the name of the user that is sent along with ciphertexts encrypted on the origin, see KnownSender
+  senderName?: string
+  // the revocation statement signed by the key owner, see exportRevocation
+  revocation?: EncodedValueAndSignature
 }
 export function isRecipientKey(key: StoredKey): key is RecipientKey {
   return 'signingKeyPair' in key
 }
 
+/**
+ * The signing key of a sender of recipient ciphertexts (i.e., the sender's per-origin key pair) that has been seen before.
+ * Senders are trusted on first use: the first key seen with a sender name is pinned to that name.
+ * A different key with the same name is reported as a changed sender key until the user verifies the new key (see keyVerification.ts).
+ */
+export interface KnownSender {
+  keyId: KeyId
+  // the name provided by the sender with its ciphertexts, null if the sender provided no name
+  name: string | null
+  // whether the user verified the key id with the sender
+  verified: boolean
+  // timestamp of the first decryption of a value of this sender
+  firstSeen: number
+  // set if the name was pinned to another key before
+  changedFrom?: KeyId
+}
+
+/**
+ * The sender of a decrypted recipient ciphertext:
+ * own: the value was encrypted by the user.
+ * known: the sender key has been seen before (or was verified by the user).
+ * unknown: the sender key is seen for the first time.
+ * changed: the sender uses the name of a known sender with a different key, see KnownSender.
+ */
+export interface SenderInfo {
+  keyId: KeyId
+  name: string | null
+  status: 'own' | 'known' | 'unknown' | 'changed'
+  verified: boolean
+  firstSeen: number | null
+}
+
 export interface KeyAgreementKeyPair {
   keyId: KeyId
   publicKey: CryptoKey
@@ -66,26 +138,61 @@ export interface KeyAgreementKeyPair {
   origin: string
 }
 
-export class BDPParameterError extends Error { }
-export class KeyMissingError extends BDPParameterError { }
-export class DisallowedKeyError extends BDPParameterError { }
-export class InvalidCiphertextError extends BDPParameterError { }
+// format identifier of exported revocation statements, see exportRevocation
+const REVOCATION_FORMAT = 'bdp-key-revocation'
 
-interface CiphertextData {
-  keyId: KeyId
+// After this time without any use of the key store, an unlocked vault is locked again.
+export const VAULT_IDLE_TIMEOUT = 10 * 60 * 1000
+
+// storage.local keys of the key collections. In vault mode, these are not stored in plain but as part of the encrypted vault.
+const KEY_COLLECTIONS = [
+  'symmetricKeys',
+  'passwordKeys',
+  'recipientKeys',
+  'keyAgreementKeyPairs',
+  'perOriginKeyPairs',
+  'knownSenders',
+]
+
+/**
+ * In vault mode, the serialized key collections are encrypted under a key derived from the master passphrase.
+ */
+interface VaultData {
+  version: number
+  kdf: PasswordKdfParameters
+  salt: string
   iv: string
-  ciphertext: EncodedCiphertext
+  ciphertext: string
 }
-interface PasswordKeyCiphertextData extends CiphertextData {
+
+/**
+ * A backup of all key collections, encrypted under a key derived from the backup passphrase (see KeyStore.createBackup).
+ */
+interface BackupData {
+  format: string
+  version: number
+  // timestamp of the backup creation
+  created: number
+  kdf: PasswordKdfParameters
   salt: string
+  iv: string
+  ciphertext: string
 }
-interface RecipientCiphertextData {
-  encryptedEphemeralKey: { [key: KeyId]: EncodedCiphertext }
-  signedEphemeralKeyId: EncodedValueAndSignature
-  senderSigningPublicKey: SerializedKey
-  senderKeyId: KeyId
-  recipientKeyId: KeyId
-  encryptedValue: CiphertextData
+const BACKUP_FORMAT = 'bdp-key-backup'
+const BACKUP_VERSION = 1
+
+/**
+ * The result of restoring a single key of a backup.
+ * added: the key did not exist and was restored.
+ * merged: the key existed without its private keys, which were restored.
+ * unchanged: the key existed already.
+ * conflict: the key was not restored, see reason.
+ */
+export interface BackupRestoreEntry {
+  collection: string
+  keyId: KeyId
+  status: 'added' | 'merged' | 'unchanged' | 'conflict'
+  reason?: string
 }
 
 export default class KeyStore {
@@ -98,6 +205,12 @@ export default class KeyStore {
   // per-origin key pair are auto-managed and not manageble by the user. They are used to sign recipient encryption values and to store an additional copy of the ephemeral session key in ciphertext data to allow decryption for the sender as well.
   // The key id of these is displayed to the user to allow verification of the key authenticity if this value is provided via an external secure channel to the recipient.
   #perOriginKeyPairs: { [key: string]: RecipientKey }
+  #knownSenders: { [key: string]: KnownSender }
+
+  #vault: { enabled: boolean, locked: boolean }
+  // the key derived from the master passphrase and the parameters used for its derivation, only available while the vault is unlocked
+  #vaultKey: CryptoKey | null = null
+  #vaultParameters: { kdf: PasswordKdfParameters, salt: string } | null = null
 
   constructor() {
     this.#passwordKeys = reactive(Object.create(null))
@@ -105,22 +218,57 @@ export default class KeyStore {
     this.#recipientKeys = reactive(Object.create(null))
     this.#keyAgreementKeyPairs = reactive(Object.create(null))
     this.#perOriginKeyPairs = reactive(Object.create(null))
+    this.#knownSenders = reactive(Object.create(null))
+    this.#vault = reactive({
+      enabled: false,
+      locked: false,
+    })
   }
 
   static getKeyStore(): KeyStore {
     return KeyStore.#keyStore ?? (KeyStore.#keyStore = new KeyStore())
   }
 
-  async #encryptAES(plaintext: string, key: SymmetricKey | PasswordKey, origin: string): Promise<CiphertextData> {
-    if (!key.allowedOrigins.includes(origin) && !key.allowedOrigins.includes('*')) {
-      throw new DisallowedKeyError('Key usage is not allowed for this origin.')
+  /**
+   * Check that the key may be used on the origin. Throws a DisallowedKeyError otherwise,
+   * or an OriginConfirmationRequiredError if the user needs to confirm the first use of the key on the origin.
+   */
+  #checkOrigin(key: StoredKey, origin: string) {
+    if (!isOriginAllowed(key.allowedOrigins, origin)) {
+      throw new DisallowedKeyError(`Key usage of key ${key.keyId} is not allowed for the origin ${origin}.`)
+    }
+    if (key.confirmNewOrigins && !key.previouslyUsedOnOrigins.includes(origin)) {
+      throw new OriginConfirmationRequiredError(key.keyId, origin)
     }
+  }
+
+  /**
+   * Check that the key may be used to encrypt new values. Throws a DisallowedKeyError for expired and revoked keys.
+   * Decryption is not checked, so values encrypted before remain accessible.
+   */
+  #checkKeyValid(key: StoredKey) {
+    switch (getKeyStatus(key)) {
+      case 'revoked':
+        throw new DisallowedKeyError(`The key ${key.keyId} has been revoked and cannot be used to encrypt new values.`)
+      case 'expired':
+        throw new DisallowedKeyError(`The key ${key.keyId} expired on ${key.expiresAt!.toLocaleDateString()} and cannot be used to encrypt new values.`)
+    }
+  }
+
+  /**
+   * Encrypt a plaintext with AES-GCM. The ciphertext is bound to the origin and the field context via the additional authenticated data.
+   */
+  async #encryptAES(plaintext: string, key: SymmetricKey | PasswordKey, origin: string, context: string | null): Promise<CiphertextData> {
+    this.#checkOrigin(key, origin)
+    this.#checkKeyAgreementConfirmed(key)
+    this.#checkKeyValid(key)
 
     const iv = crypto.getRandomValues(new Uint8Array(12))
     const ciphertext = await crypto.subtle.encrypt(
       {
         name: 'AES-GCM',
         iv,
+        additionalData: encodeAdditionalData(origin, context),
       },
       key.key,
       new TextEncoder().encode(plaintext),
@@ -129,6 +277,7 @@ export default class KeyStore {
       keyId: key.keyId,
       iv: bufferToBase64(iv),
       ciphertext: bufferToBase64(ciphertext),
+      context,
     }
 
     key.lastUsed = new Date()
@@ -139,17 +288,25 @@ export default class KeyStore {
 
     return data
   }
-  async #decryptAES(ciphertextData: { keyId: string, iv: string, ciphertext: string }, key: SymmetricKey | PasswordKey, origin: string): Promise<string> {
-    if (!key.allowedOrigins.includes(origin) && !key.allowedOrigins.includes('*')) {
-      throw new DisallowedKeyError(`Key usage of key ${ciphertextData.keyId} is not allowed for this origin.`)
+  /**
+   * Decrypt an AES-GCM ciphertext. Ciphertexts that are bound to an origin and a field context can only be decrypted for the same origin and context.
+   * Ciphertexts that predate the binding (ciphertext format < 2) are decrypted without additional authenticated data.
+   */
+  async #decryptAES(ciphertextData: CiphertextData, key: SymmetricKey | PasswordKey, origin: string, context: string | null): Promise<string> {
+    this.#checkOrigin(key, origin)
+    this.#checkKeyAgreementConfirmed(key)
+
+    const bound = ciphertextData.context !== undefined
+    if (bound && ciphertextData.context !== context) {
+      throw new ContextMismatchError(`The ciphertext belongs to a field with the context '${ciphertextData.context ?? 'none'}', but this field has the context '${context ?? 'none'}'.`)
     }
 
     try {
       const plaintextBuffer = await crypto.subtle.decrypt(
-        {
+        Object.assign({
           name: 'AES-GCM',
           iv: bufferFromBase64(ciphertextData.iv),
-        },
+        }, bound ? { additionalData: encodeAdditionalData(origin, context) } : {}),
         key.key,
         bufferFromBase64(ciphertextData.ciphertext),
       )
@@ -157,6 +314,9 @@ export default class KeyStore {
 
       return plaintext
     } catch (e) {
+      if (bound) {
+        throw new InvalidCiphertextError('Invalid ciphertext. It may have been created on a different origin.')
+      }
       throw new InvalidCiphertextError('Invalid ciphertext.')
     }
   }
@@ -165,7 +325,7 @@ export default class KeyStore {
     return Object.values(this.#symmetricKeys).sort((a, b) => a.created.valueOf() - b.created.valueOf())
   }
   getSymmetricKeysForOrigin(origin: string, distributionMode?: SymmetricKey['distributionMode']) {
-    let keys = this.getSymmetricKeys().filter(key => key.allowedOrigins.includes(origin) || key.allowedOrigins.includes('*'))
+    let keys = this.getSymmetricKeys().filter(key => isOriginAllowed(key.allowedOrigins, origin) && key.unconfirmedSas === undefined)
     if (distributionMode !== undefined) {
       keys = keys.filter(key => key.distributionMode === distributionMode)
     }
@@ -187,6 +347,7 @@ export default class KeyStore {
     return true
   }
   async generateSymmetricKey(shortDescription: string, allowedOrigins: string[], distributionMode: SymmetricKey['distributionMode'], store = true): Promise<SymmetricKey> {
+    validateAllowedOrigins(allowedOrigins)
     const key = await crypto.subtle.generateKey(
       {
         name: 'AES-GCM',
@@ -211,26 +372,173 @@ export default class KeyStore {
     }
     return keyObj
   }
-  async encryptWithSymmetricKey(plaintext: string, key: SymmetricKey, origin: string): Promise<string> {
-    return JSON.stringify(await this.#encryptAES(plaintext, key, origin))
+  async encryptWithSymmetricKey(plaintext: string, key: SymmetricKey, origin: string, context: string | null = null): Promise<string> {
+    return encodeSymmetricCiphertext(await this.#encryptAES(plaintext, key, origin, context))
   }
-  async decryptWithSymmetricKey(ciphertext: string, origin: string): Promise<[SymmetricKey, string]> {
-    let data: CiphertextData
+  async decryptWithSymmetricKey(ciphertext: string, origin: string, context: string | null = null): Promise<[SymmetricKey, string]> {
+    const data = decodeSymmetricCiphertext(ciphertext)
+
+    const key = this.#symmetricKeys[data.keyId]
+    if (key === undefined) {
+      throw new KeyMissingError(`The key with the id ${data.keyId} was not found.`)
+    }
+
+    return [key, await this.#decryptAES(data, key, origin, context)]
+  }
+  /**
+   * Replace a symmetric key with a newly generated successor key. The old key is kept to decrypt existing values, but is marked as superseded.
+   */
+  async rotateSymmetricKey(keyId: KeyId): Promise<SymmetricKey> {
+    const key = this.#symmetricKeys[keyId]
+    if (key === undefined) {
+      throw new KeyMissingError(`The key with the id ${keyId} was not found.`)
+    }
+    if (key.supersededBy !== undefined) {
+      throw new BDPParameterError(`The key ${keyId} has already been rotated.`)
+    }
+    const successor = await this.generateSymmetricKey(key.shortDescription, key.allowedOrigins.slice(), key.distributionMode, false)
+    this.#inheritOriginConfirmations(successor, key)
+    this.#symmetricKeys[successor.keyId] = successor
+    key.supersededBy = successor.keyId
+    await this.#save()
+    return successor
+  }
+  /**
+   * Re-encrypt a ciphertext whose key has been rotated with the most recent successor key.
+   * Returns null if the key of the ciphertext has not been rotated.
+   */
+  async reencryptWithSymmetricKey(ciphertext: string, origin: string, context: string | null = null): Promise<EncodedCiphertext | null> {
+    const [key, plaintext] = await this.decryptWithSymmetricKey(ciphertext, origin, context)
+    const successor = this.#getLatestSuccessor(this.#symmetricKeys, key)
+    if (successor === key) {
+      return null
+    }
+    return await this.encryptWithSymmetricKey(plaintext, successor, origin, context)
+  }
+  /**
+   * Follow the supersededBy links of a key to its most recent successor that is available in the collection.
+   */
+  #getLatestSuccessor<T extends StoredKey>(collection: { [key: string]: T }, key: T): T {
+    const visited = new Set([key.keyId])
+    while (key.supersededBy !== undefined && collection[key.supersededBy] !== undefined && !visited.has(key.supersededBy)) {
+      key = collection[key.supersededBy]
+      visited.add(key.keyId)
+    }
+    return key
+  }
+  /**
+   * The successor of a rotated key does not ask again for the origins that have been confirmed for its predecessor.
+   */
+  #inheritOriginConfirmations(successor: StoredKey, key: StoredKey) {
+    successor.confirmNewOrigins = key.confirmNewOrigins
+    successor.previouslyUsedOnOrigins = key.previouslyUsedOnOrigins.slice()
+  }
+  #findKey(keyId: KeyId): StoredKey {
+    const key = this.#symmetricKeys[keyId] ?? this.#passwordKeys[keyId] ?? this.#recipientKeys[keyId]
+    if (key === undefined) {
+      throw new KeyMissingError(`The key with the id ${keyId} was not found.`)
+    }
+    return key
+  }
+  /**
+   * Enable or disable the confirmation before a key is used on an origin it has not been used on before.
+   */
+  async setConfirmNewOrigins(keyId: KeyId, confirmNewOrigins: boolean) {
+    this.#findKey(keyId).confirmNewOrigins = confirmNewOrigins
+    await this.#save()
+  }
+  /**
+   * Record that the user confirmed the use of a key on an origin (see OriginConfirmationRequiredError).
+   */
+  async confirmKeyOrigin(keyId: KeyId, origin: string) {
+    const key = this.#findKey(keyId)
+    if (!isOriginAllowed(key.allowedOrigins, origin)) {
+      throw new DisallowedKeyError(`Key usage of key ${keyId} is not allowed for the origin ${origin}.`)
+    }
+    if (!key.previouslyUsedOnOrigins.includes(origin)) {
+      key.previouslyUsedOnOrigins.push(origin)
+    }
+    await this.#save()
+  }
+  /**
+   * Set the time after which the key is no longer used to encrypt new values. null removes the expiry.
+   */
+  async setKeyExpiry(keyId: KeyId, expiresAt: Date | null) {
+    const key = this.#findKey(keyId)
+    if (expiresAt === null) {
+      delete key.expiresAt
+    } else {
+      key.expiresAt = expiresAt
+    }
+    await this.#save()
+  }
+  /**
+   * Revoke a key, i.e., it is no longer used to encrypt new values. A revocation cannot be undone.
+   * For own recipient keys, a revocation statement is signed that can be provided to the other parties (see exportRevocation).
+   */
+  async revokeKey(keyId: KeyId) {
+    const key = this.#findKey(keyId)
+    if (key.revoked !== undefined) {
+      throw new BDPParameterError(`The key ${keyId} has already been revoked.`)
+    }
+    key.revoked = new Date()
+    if (isRecipientKey(key) && key.signingKeyPair.privateKey !== undefined) {
+      key.revocation = await this.#signECDSA(JSON.stringify({
+        type: 'revocation',
+        keyId,
+        revoked: key.revoked.valueOf(),
+      }), key.signingKeyPair.privateKey)
+    }
+    await this.#save()
+  }
+  /**
+   * Export the signed revocation statement of a recipient key. Like public keys, it can be provided to anybody.
+   */
+  exportRevocation(keyId: KeyId): string {
+    const key = this.#recipientKeys[keyId]
+    if (key?.revocation === undefined) {
+      throw new BDPParameterError(`There is no revocation statement of key ${keyId}.`)
+    }
+    return btoa(JSON.stringify({
+      format: REVOCATION_FORMAT,
+      keyId,
+      revocation: key.revocation,
+    }))
+  }
+  /**
+   * Import the revocation statement of a recipient key (see exportRevocation). It is only applied if it is signed by the revoked key itself.
+   * @returns The revoked key.
+   */
+  async importRevocation(revocation: string): Promise<RecipientKey> {
+    let data: any
     try {
-      data = JSON.parse(ciphertext)
+      data = JSON.parse(atob(revocation))
     } catch {
-      throw new BDPParameterError('Invalid ciphertext.')
+      throw new BDPParameterError('Invalid revocation statement.')
     }
-    if (typeof data !== 'object' || data.keyId === undefined || data.iv === undefined || data.ciphertext === undefined) {
-      throw new BDPParameterError('Invalid ciphertext.')
+    if (data?.format !== REVOCATION_FORMAT || typeof data.revocation !== 'string') {
+      throw new BDPParameterError('Invalid revocation statement.')
     }
-
-    const key = this.#symmetricKeys[data.keyId]
+    const key = this.#recipientKeys[data.keyId]
     if (key === undefined) {
-      throw new KeyMissingError(`The key with the id ${data.keyId} was not found.`)
+      throw new KeyMissingError(`The revoked key ${data.keyId} was not found.`)
     }
 
-    return [key, await this.#decryptAES(data, key, origin)]
+    const [value, valid] = await this.#verifyECDSA(data.revocation, key.signingKeyPair.publicKey)
+    let statement: any = null
+    try {
+      statement = JSON.parse(value ?? 'null')
+    } catch { }
+    if (!valid || statement?.type !== 'revocation' || statement.keyId !== key.keyId || typeof statement.revoked !== 'number') {
+      throw new BDPParameterError(`The revocation statement is not signed by the key ${key.keyId}.`)
+    }
+
+    if (key.revocation === undefined) {
+      key.revoked = new Date(statement.revoked)
+      key.revocation = data.revocation
+      await this.#save()
+    }
+    return key
   }
   async deleteSymmetricKey(keyId: string) {
     delete this.#symmetricKeys[keyId]
@@ -241,7 +549,7 @@ export default class KeyStore {
     return Object.values(this.#passwordKeys).sort((a, b) => a.created.valueOf() - b.created.valueOf())
   }
   getPasswordKeysForOrigin(origin: string) {
-    return this.getPasswordKeys().filter(key => key.allowedOrigins.includes(origin) || key.allowedOrigins.includes('*'))
+    return this.getPasswordKeys().filter(key => isOriginAllowed(key.allowedOrigins, origin))
   }
   getPasswordKeyCount(): number {
     return Object.keys(this.#passwordKeys).length
@@ -250,36 +558,24 @@ export default class KeyStore {
    * Generate a new password key with a unique salt. To re-generate *a specific key* again, the existing salt of the ciphertext needs to be provided.
    * Otherwise, a salt MUST NOT be provided, as it is essential that every new key uses a different salt. When providing a salt, the keyId of the
    * key that is expected to be returned must be provided. Otherwise, no key is stored nor returned.
+   * New keys are derived with the provided key derivation parameters, which need to meet the PASSWORD_KDF_POLICY. Re-generated keys are derived
+   * with the parameters of the ciphertext.
    */
-  async generatePasswordKey(password: string, shortDescription: string, allowedOrigins: string[], storePersistently: boolean, existingSalt?: string, existingKeyId?: string): Promise<PasswordKey> {
-    const passwordKey = await crypto.subtle.importKey(
-      'raw',
-      new TextEncoder().encode(password),
-      'PBKDF2',
-      false,
-      ['deriveBits', 'deriveKey'],
-    )
+  async generatePasswordKey(password: string, shortDescription: string, allowedOrigins: string[], storePersistently: boolean, existingSalt?: string, existingKeyId?: string, kdf: PasswordKdfParameters = DEFAULT_PASSWORD_KDF): Promise<PasswordKey> {
+    const parsedKdf = parsePasswordKdf(kdf)
+    if (parsedKdf === null) {
+      throw new BDPParameterError('The key derivation parameters are not supported.')
+    }
     let salt: ArrayBuffer
     if (existingSalt !== undefined) {
       salt = bufferFromBase64(existingSalt)
     } else {
+      if (!meetsPasswordKdfPolicy(parsedKdf)) {
+        throw new BDPParameterError('The key derivation parameters are too weak for new password keys.')
+      }
       salt = crypto.getRandomValues(new Uint8Array(30))
     }
-    const key = await crypto.subtle.deriveKey(
-      {
-        name: 'PBKDF2',
-        salt,
-        iterations: 250000,
-        hash: 'SHA-512',
-      },
-      passwordKey,
-      {
-        name: 'AES-GCM',
-        length: 256,
-      },
-      true,
-      ['encrypt', 'decrypt'],
-    )
+    const key = await derivePasswordKey(password, salt, parsedKdf)
 
     const keyObj: PasswordKey = {
       keyId: await deriveKeyId(key),
@@ -290,6 +586,7 @@ export default class KeyStore {
       previouslyUsedOnOrigins: [],
       key,
       salt: bufferToBase64(salt),
+      kdf: parsedKdf,
     }
 
     if (existingSalt !== undefined) {
@@ -306,25 +603,22 @@ export default class KeyStore {
 
     return keyObj
   }
-  async encryptWithPasswordKey(plaintext: string, key: PasswordKey, origin: string): Promise<string> {
-    const data = await this.#encryptAES(plaintext, key, origin) as PasswordKeyCiphertextData
-    data.salt = key.salt
-    return JSON.stringify(data)
+  async encryptWithPasswordKey(plaintext: string, key: PasswordKey, origin: string, context: string | null = null): Promise<string> {
+    const data = await this.#encryptAES(plaintext, key, origin, context)
+    return encodePasswordCiphertext(Object.assign(data, {
+      salt: key.salt,
+      kdf: key.kdf ?? LEGACY_PASSWORD_KDF,
+    }))
   }
   /**
    * Decrypt a ciphertext with a password key. If no key is provided, the keyId of the ciphertext is used to look up the key.
    * Alternatively, it is possible to specify the password to automatically re-generate the required password key.
+   * If the re-generated key is stored and was derived with other parameters than the current DEFAULT_PASSWORD_KDF, it is upgraded:
+   * A successor key with a new salt and the current parameters is stored as well and the old key is marked as superseded by it,
+   * so the value can be re-encrypted with reencryptWithPasswordKey.
    */
-  async decryptWithPasswordKey(ciphertext: string, origin: string, key?: PasswordKey, password?: string, storeKey?: boolean): Promise<[PasswordKey, string]> {
-    let data: PasswordKeyCiphertextData
-    try {
-      data = JSON.parse(ciphertext)
-    } catch {
-      throw new BDPParameterError('Invalid ciphertext.')
-    }
-    if (typeof data !== 'object' || data.keyId === undefined || data.iv === undefined || data.ciphertext === undefined || data.salt === undefined) {
-      throw new BDPParameterError('Invalid ciphertext.')
-    }
+  async decryptWithPasswordKey(ciphertext: string, origin: string, key?: PasswordKey, password?: string, storeKey?: boolean, context: string | null = null): Promise<[PasswordKey, string]> {
+    const data = decodePasswordCiphertext(ciphertext)
 
     if (key !== undefined && password !== undefined) {
       throw new Error('Either a key or a password or none of both must be provided, not both.')
@@ -339,7 +633,7 @@ export default class KeyStore {
 
     if (key === undefined && password !== undefined) {
       try {
-        key = await this.generatePasswordKey(password, 'password-derived key', ['*'], storeKey ?? false, data.salt, data.keyId)
+        key = await this.generatePasswordKey(password, 'password-derived key', ['*'], storeKey ?? false, data.salt, data.keyId, data.kdf)
       } catch (e) {
         if (!(e instanceof BDPParameterError)) {
           throw e
@@ -349,7 +643,41 @@ export default class KeyStore {
     }
 
     // key is now guaranteed to be defined as every other case is handled above to either provide a key or to throw an error.
-    return [key as PasswordKey, await this.#decryptAES(data, key as PasswordKey, origin)]
+    const plaintext = await this.#decryptAES(data, key as PasswordKey, origin, context)
+    if (password !== undefined && storeKey && key!.supersededBy === undefined && !isSamePasswordKdf(data.kdf, DEFAULT_PASSWORD_KDF)) {
+      await this.#upgradePasswordKey(key!, password)
+    }
+    return [key as PasswordKey, plaintext]
+  }
+  /**
+   * Replace a stored password key with a key derived from the same password with a new salt and the current DEFAULT_PASSWORD_KDF.
+   * The old key is kept to decrypt existing values, but is marked as superseded.
+   */
+  async #upgradePasswordKey(key: PasswordKey, password: string): Promise<PasswordKey> {
+    const successor = await this.generatePasswordKey(password, key.shortDescription, key.allowedOrigins.slice(), false)
+    this.#inheritOriginConfirmations(successor, key)
+    this.#passwordKeys[successor.keyId] = successor
+    key.supersededBy = successor.keyId
+    await this.#save()
+    return successor
+  }
+  /**
+   * Re-encrypt a ciphertext whose password key has been upgraded with the most recent successor key.
+   * Returns null if the key of the ciphertext has not been upgraded.
+   */
+  async reencryptWithPasswordKey(ciphertext: string, origin: string, context: string | null = null): Promise<EncodedCiphertext | null> {
+    const [key, plaintext] = await this.decryptWithPasswordKey(ciphertext, origin, undefined, undefined, undefined, context)
+    const successor = this.#getLatestSuccessor(this.#passwordKeys, key)
+    if (successor === key) {
+      return null
+    }
+    return await this.encryptWithPasswordKey(plaintext, successor, origin, context)
+  }
+  /**
+   * The most recent successor of an upgraded password key, or the key itself if it has not been upgraded.
+   */
+  getLatestPasswordKey(key: PasswordKey): PasswordKey {
+    return this.#getLatestSuccessor(this.#passwordKeys, key)
   }
   async deletePasswordKey(keyId: string) {
     delete this.#passwordKeys[keyId]
@@ -360,7 +688,7 @@ export default class KeyStore {
     return Object.values(this.#recipientKeys).sort((a, b) => a.created.valueOf() - b.created.valueOf())
   }
   getRecipientKeysForOrigin(origin: string) {
-    return this.getRecipientKeys().filter(key => key.allowedOrigins.includes(origin) || key.allowedOrigins.includes('*'))
+    return this.getRecipientKeys().filter(key => isOriginAllowed(key.allowedOrigins, origin))
   }
   getRecipientKeyCount(): number {
     return Object.keys(this.#recipientKeys).length
@@ -402,18 +730,36 @@ export default class KeyStore {
     }
   }
   /**
-   * Adds a recipient key to the key store unless it already exists.
-   * @returns Whether the key was added or not (i.e., it existed already).
+   * Adds a recipient key to the key store unless it already exists. If only the public keys of the key exist, they are completed with the provided private keys.
+   * Throws a BDPParameterError if the key is inconsistent (see RecipientKey).
+   * @returns Whether the key was added or completed (true) or not (i.e., it existed already).
    */
   async addRecipientKey(key: RecipientKey): Promise<boolean> {
-    if (this.#recipientKeys[key.keyId] !== undefined) {
+    if (!await this.#validateRecipientKeyPair(key)) {
+      throw new BDPParameterError(`The recipient key ${key.keyId} is invalid.`)
+    }
+    const result = this.#mergeRecipientKey(key)
+    if (result === 'unchanged') {
       return false
     }
-    this.#recipientKeys[key.keyId] = key
     await this.#save()
     return true
   }
+  #mergeRecipientKey(key: RecipientKey): 'added' | 'merged' | 'unchanged' {
+    const existingKey = this.#recipientKeys[key.keyId]
+    if (existingKey === undefined) {
+      this.#recipientKeys[key.keyId] = key
+      return 'added'
+    }
+    if (existingKey.signingKeyPair.privateKey === undefined && key.signingKeyPair.privateKey !== undefined) {
+      existingKey.signingKeyPair.privateKey = key.signingKeyPair.privateKey
+      existingKey.encryptionKeyPair.privateKey = key.encryptionKeyPair.privateKey
+      return 'merged'
+    }
+    return 'unchanged'
+  }
   async generateRecipientKey(shortDescription: string, allowedOrigins: string[], store = true): Promise<RecipientKey> {
+    validateAllowedOrigins(allowedOrigins)
     const signingKeyPair = await crypto.subtle.generateKey(
       {
         name: 'ECDSA',
@@ -455,6 +801,41 @@ export default class KeyStore {
     }
     return keyObj
   }
+  /**
+   * Replace an own recipient key with a newly generated successor key. The old key is kept to decrypt existing values, but is marked as superseded.
+   * The successor's public key needs to be provided to the senders again.
+   */
+  async rotateRecipientKey(keyId: KeyId): Promise<RecipientKey> {
+    const key = this.#recipientKeys[keyId]
+    if (key === undefined) {
+      throw new KeyMissingError(`The key with the id ${keyId} was not found.`)
+    }
+    if (key.encryptionKeyPair.privateKey === undefined) {
+      throw new BDPParameterError('Only own recipient keys (with private key) can be rotated.')
+    }
+    if (key.supersededBy !== undefined) {
+      throw new BDPParameterError(`The key ${keyId} has already been rotated.`)
+    }
+    const successor = await this.generateRecipientKey(key.shortDescription, key.allowedOrigins.slice(), false)
+    this.#inheritOriginConfirmations(successor, key)
+    this.#recipientKeys[successor.keyId] = successor
+    key.supersededBy = successor.keyId
+    await this.#save()
+    return successor
+  }
+  /**
+   * Re-encrypt a recipient ciphertext, replacing every recipient whose key has been rotated with the most recent successor key.
+   * Returns null if none of the recipient keys has been rotated.
+   */
+  async reencryptWithRecipientKey(ciphertext: string, origin: string, context: string | null = null): Promise<EncodedCiphertext | null> {
+    const [, recipientKeys, plaintext] = await this.decryptWithRecipientKey(ciphertext, origin, undefined, context)
+    const successors = recipientKeys.map(key => this.#getLatestSuccessor(this.#recipientKeys, key))
+    if (successors.every((successor, i) => successor === recipientKeys[i])) {
+      return null
+    }
+    const [, newCiphertext] = await this.encryptWithRecipientKey(plaintext, successors, origin, context)
+    return newCiphertext
+  }
   async deleteRecipientKey(keyId: string) {
     delete this.#recipientKeys[keyId]
     await this.#save()
@@ -491,29 +872,58 @@ export default class KeyStore {
       return false
     }
 
+    // check that private keys, if any, belong to the public keys, e.g., for keys imported from another device
+    if (keyPair.signingKeyPair.privateKey !== undefined || keyPair.encryptionKeyPair.privateKey !== undefined) {
+      if (keyPair.signingKeyPair.privateKey === undefined || keyPair.encryptionKeyPair.privateKey === undefined) {
+        return false
+      }
+      const challenge = bufferToBase64(crypto.getRandomValues(new Uint8Array(32)))
+      try {
+        const [signedChallenge, challengeValid] = await this.#verifyECDSA(await this.#signECDSA(challenge, keyPair.signingKeyPair.privateKey), keyPair.signingKeyPair.publicKey)
+        if (signedChallenge !== challenge || challengeValid !== true) {
+          return false
+        }
+        if (await this.#decryptRSA(await this.#encryptRSA(challenge, keyPair.encryptionKeyPair.publicKey), keyPair.encryptionKeyPair.privateKey) !== challenge) {
+          return false
+        }
+      } catch {
+        return false
+      }
+    }
+
     return true
   }
-  async encryptWithRecipientKey(plaintext: string, recipientKey: RecipientKey, origin: string): Promise<[RecipientKey, EncodedCiphertext]> {
+  /**
+   * Encrypt a value for one or more recipients. The ephemeral key is additionally encrypted for the own per-origin key pair so that the sender can decrypt the value as well.
+   */
+  async encryptWithRecipientKey(plaintext: string, recipientKeys: RecipientKey[], origin: string, context: string | null = null): Promise<[RecipientKey, EncodedCiphertext]> {
+    if (recipientKeys.length === 0) {
+      throw new BDPParameterError('At least one recipient key is required.')
+    }
+    const recipientKeyIds = recipientKeys.map(key => key.keyId)
+    if (new Set(recipientKeyIds).size !== recipientKeyIds.length) {
+      throw new BDPParameterError('Every recipient key may only be provided once.')
+    }
+
     // load own key pair used for this origin
     const ownKeyPair = await this.getOriginKeyPair(origin)
 
     const ephemeralKey = await this.generateSymmetricKey('', [origin], 'external', false)
     const serializedEphemeralKey = JSON.stringify(await serializeValue(ephemeralKey))
-    const encryptedValue = await this.#encryptAES(plaintext, ephemeralKey, origin)
+    const encryptedValue = await this.#encryptAES(plaintext, ephemeralKey, origin, context)
 
     const signedEphemeralKeyId = await this.#signECDSA(await deriveKeyId(ephemeralKey.key), ownKeyPair.signingKeyPair.privateKey!)
 
     const encryptedEphemeralKey = Object.create(null);
-    const keyPairsToEncryptFor = [recipientKey, ownKeyPair]
+    const keyPairsToEncryptFor = recipientKeys.concat([ownKeyPair])
     for (let i = 0; i < keyPairsToEncryptFor.length; i++) {
       const keyPair = keyPairsToEncryptFor[i]
 
       if (await this.#validateRecipientKeyPair(keyPair) !== true) {
         throw new BDPParameterError(`Key pair ${keyPair.keyId} is invalid.`)
       }
-      if (!keyPair.allowedOrigins.includes(origin) && !keyPair.allowedOrigins.includes('*')) {
-        throw new BDPParameterError(`Key pair ${keyPair.keyId} is not allowed for this origin ${origin}.`)
-      }
+      this.#checkOrigin(keyPair, origin)
+      this.#checkKeyValid(keyPair)
 
       // validation was successful, encrypt ephemeral key for this recipient.
       encryptedEphemeralKey[keyPair.keyId] = await this.#encryptRSA(serializedEphemeralKey, keyPair.encryptionKeyPair.publicKey)
@@ -524,27 +934,42 @@ export default class KeyStore {
       signedEphemeralKeyId,
       senderSigningPublicKey: await serializeKey(ownKeyPair.signingKeyPair.publicKey),
       senderKeyId: ownKeyPair.keyId,
-      recipientKeyId: recipientKey.keyId,
+      recipientKeyIds,
       encryptedValue,
     }
-    return [ownKeyPair, JSON.stringify(ciphertextData)]
+    if (ownKeyPair.senderName !== undefined) {
+      ciphertextData.signedSenderName = await this.#signECDSA(ownKeyPair.senderName, ownKeyPair.signingKeyPair.privateKey!)
+    }
+    return [ownKeyPair, encodeRecipientCiphertext(ciphertextData)]
   }
-  async decryptWithRecipientKey(ciphertext: string, origin: string, recipientKeyId?: KeyId): Promise<[KeyId, RecipientKey, string]> {
+  /**
+   * Decrypt a value encrypted for one or more recipients.
+   * If the recipients of the field are known (e.g., provided by the web application), the ciphertext needs to be encrypted for exactly these recipients.
+   * Returns the sender key id, the recipient keys and the plaintext. All recipient keys need to be available, either as expected recipient key or in the key store.
+   * The sender is only recorded in the known senders if recordSender is set, i.e., if its status is shown to the user (see #getSenderInfo).
+   * Otherwise, a value decrypted without involvement of the user (e.g., for in-page display) could pin a key chosen by the web application.
+   */
+  async decryptWithRecipientKey(ciphertext: string, origin: string, expectedRecipientKeys?: RecipientKey[], context: string | null = null, recordSender = false): Promise<[KeyId, RecipientKey[], string, SenderInfo]> {
     // load own key pair used for this origin
     const ownKeyPair = await this.getOriginKeyPair(origin)
     let senderSigningPublicKey: CryptoKey
 
-    let data: RecipientCiphertextData
-    try {
-      data = JSON.parse(ciphertext)
-    } catch {
-      throw new BDPParameterError('Invalid ciphertext.')
+    const data = decodeRecipientCiphertext(ciphertext)
+
+    // the ephemeral key must be encrypted for exactly the recipients and the sender
+    const recipientKeyIds = new Set(data.recipientKeyIds)
+    if (recipientKeyIds.size !== data.recipientKeyIds.length) {
+      throw new InvalidCiphertextError('The ciphertext lists a recipient more than once.')
     }
-    if (typeof data !== 'object' || data.encryptedEphemeralKey === undefined || data.recipientKeyId === undefined || data.encryptedValue === undefined || data.senderSigningPublicKey === undefined || data.senderKeyId === undefined) {
-      throw new BDPParameterError('Invalid ciphertext.')
+    const encryptedForKeyIds = Object.keys(data.encryptedEphemeralKey)
+    if (data.recipientKeyIds.some(keyId => !encryptedForKeyIds.includes(keyId)) || encryptedForKeyIds.some(keyId => !recipientKeyIds.has(keyId) && keyId !== data.senderKeyId)) {
+      throw new InvalidCiphertextError('The ciphertext\'s encrypted keys do not match its recipients.')
     }
-    if (recipientKeyId !== undefined && data.recipientKeyId !== recipientKeyId) {
-      throw new BDPParameterError('The ciphertext\'s recipient does not match this field\'s recipient.')
+    if (expectedRecipientKeys !== undefined) {
+      const expectedKeyIds = new Set(expectedRecipientKeys.map(key => key.keyId))
+      if (expectedKeyIds.size !== recipientKeyIds.size || data.recipientKeyIds.some(keyId => !expectedKeyIds.has(keyId))) {
+        throw new BDPParameterError('The ciphertext\'s recipients do not match this field\'s recipients.')
+      }
     }
 
     let serializedEphemeralKey: string
@@ -564,7 +989,7 @@ export default class KeyStore {
           }
 
           // check for allowed origin
-          if (!decryptionKeyPair.allowedOrigins.includes(origin) && !decryptionKeyPair.allowedOrigins.includes('*')) {
+          if (!isOriginAllowed(decryptionKeyPair.allowedOrigins, origin)) {
             decryptionKeyPair = undefined
             return  // continue
           }
@@ -576,6 +1001,7 @@ export default class KeyStore {
     if (decryptionKeyPair === undefined) {
       throw new BDPParameterError('No decryption key is available for this recipient encryption.')
     }
+    this.#checkOrigin(decryptionKeyPair, origin)
     serializedEphemeralKey = await this.#decryptRSA(data.encryptedEphemeralKey[decryptionKeyPair.keyId], decryptionKeyPair.encryptionKeyPair.privateKey!)
     const ephemeralKey = await deserializeValue(JSON.parse(serializedEphemeralKey)) as SymmetricKey
 
@@ -592,19 +1018,55 @@ export default class KeyStore {
     if (valid !== true || signedEphemeralKeyId != await deriveKeyId(ephemeralKey.key)) {
       throw new BDPParameterError('Ciphertext has an invalid signature.')
     }
+    let senderName: string | null = null
+    if (data.signedSenderName !== undefined) {
+      const [signedSenderName, senderNameValid] = await this.#verifyECDSA(data.signedSenderName, senderSigningPublicKey)
+      if (senderNameValid !== true || signedSenderName === undefined) {
+        throw new BDPParameterError('Ciphertext has an invalid signature.')
+      }
+      senderName = signedSenderName
+    }
 
-    let recipientKey: RecipientKey
-    if (decryptionKeyPair.keyId === data.recipientKeyId) {
-      recipientKey = decryptionKeyPair
-    } else {
-      // origin is not validated here. In case the user attempts to encrypt a new value with the provided recipient key, the origin will be validated before the encryption.
-      recipientKey = this.#recipientKeys[data.recipientKeyId]
+    const plaintext = await this.#decryptAES(data.encryptedValue, ephemeralKey, origin, context)
+
+    // origin is not validated here. In case the user attempts to encrypt a new value with the provided recipient keys, the origin will be validated before the encryption.
+    const recipientKeys: RecipientKey[] = []
+    const missingKeyIds: KeyId[] = []
+    for (const keyId of data.recipientKeyIds) {
+      const recipientKey = keyId === decryptionKeyPair.keyId ? decryptionKeyPair : expectedRecipientKeys?.find(key => key.keyId === keyId) ?? this.#recipientKeys[keyId]
       if (recipientKey === undefined) {
-        throw new BDPParameterError('Recipient key is not available.')
+        missingKeyIds.push(keyId)
+      } else {
+        recipientKeys.push(recipientKey)
       }
     }
+    if (missingKeyIds.length > 0) {
+      throw new KeyMissingError(`The recipient keys ${missingKeyIds.join(', ')} are not available.`)
+    }
 
-    return [data.senderKeyId, recipientKey, await this.#decryptAES(data.encryptedValue, ephemeralKey, origin)]
+    return [data.senderKeyId, recipientKeys, plaintext, await this.#getSenderInfo(data.senderKeyId, senderName, recordSender)]
+  }
+  /**
+   * Check whether a key to decrypt the ciphertext is available in this key store, without decrypting it.
+   * Throws an InvalidCiphertextError if the ciphertext is invalid.
+   */
+  hasDecryptionKey(ciphertext: string, protectionMode: ProtectedFieldOptions['protectionMode'], origin: string): boolean {
+    switch (protectionMode) {
+      case 'symmetric':
+        return this.#symmetricKeys[decodeSymmetricCiphertext(ciphertext).keyId] !== undefined
+      case 'password':
+        return this.#passwordKeys[decodePasswordCiphertext(ciphertext).keyId] !== undefined
+      case 'recipient':
+        return Object.keys(decodeRecipientCiphertext(ciphertext).encryptedEphemeralKey).some(keyId => {
+          if (this.#perOriginKeyPairs[origin]?.keyId === keyId) {
+            return true
+          }
+          const key = this.#recipientKeys[keyId]
+          return key !== undefined && key.encryptionKeyPair.privateKey !== undefined && isOriginAllowed(key.allowedOrigins, origin)
+        })
+      default:
+        throw new Error(`unsupported protection mode ${protectionMode}`)
+    }
   }
   async getOriginKeyPair(origin: string): Promise<RecipientKey> {
     let keyPair = this.#perOriginKeyPairs[origin]
@@ -621,6 +1083,124 @@ export default class KeyStore {
     return keyPair
   }
 
+  /**
+   * Whether the key is trusted, i.e., it is one of the user's own keys or the user verified it with its owner.
+   * Applies to recipient keys and to the signing keys of senders of recipient ciphertexts.
+   */
+  isKeyVerified(keyId: KeyId): boolean {
+    if (this.isOwnKey(keyId) || this.#recipientKeys[keyId]?.verified === true) {
+      return true
+    }
+    return this.#knownSenders[keyId]?.verified === true
+  }
+  /**
+   * Whether the key is one of the user's own recipient keys or per-origin key pairs, i.e., its private key is available.
+   */
+  isOwnKey(keyId: KeyId): boolean {
+    if (this.#recipientKeys[keyId]?.signingKeyPair.privateKey !== undefined) {
+      return true
+    }
+    return Object.values(this.#perOriginKeyPairs).some(keyPair => keyPair.keyId === keyId)
+  }
+  /**
+   * Mark a recipient key or the signing key of a sender as verified (or no longer verified) after comparing its key id with the key owner.
+   * Verifying a changed sender key accepts the change.
+   */
+  async setKeyVerified(keyId: KeyId, verified: boolean) {
+    const recipientKey = this.#recipientKeys[keyId]
+    if (recipientKey !== undefined) {
+      recipientKey.verified = verified
+    }
+    const knownSender = this.#knownSenders[keyId]
+    if (knownSender !== undefined) {
+      knownSender.verified = verified
+      if (verified) {
+        delete knownSender.changedFrom
+      }
+    } else if (verified && recipientKey === undefined) {
+      this.#knownSenders[keyId] = {
+        keyId,
+        name: null,
+        verified,
+        firstSeen: Date.now(),
+      }
+    }
+    await this.#save()
+  }
+
+  getKnownSenders(): KnownSender[] {
+    return Object.values(this.#knownSenders).sort((a, b) => a.firstSeen - b.firstSeen)
+  }
+  async deleteKnownSender(keyId: KeyId) {
+    delete this.#knownSenders[keyId]
+    await this.#save()
+  }
+  /**
+   * Determine the status of the sender of a decrypted value, see SenderInfo.
+   * If record is set, the sender is recorded in the known senders (trust on first use).
+   */
+  async #getSenderInfo(keyId: KeyId, name: string | null, record: boolean): Promise<SenderInfo> {
+    if (this.isOwnKey(keyId)) {
+      return { keyId, name, status: 'own', verified: true, firstSeen: null }
+    }
+    let knownSender = this.#knownSenders[keyId]
+    if (knownSender !== undefined) {
+      // a key that was known before without name (e.g., verified manually) is pinned to the name now
+      if (record && knownSender.name === null && name !== null && !this.#isSenderNamePinned(name, keyId)) {
+        knownSender.name = name
+        await this.#save()
+      }
+      return {
+        keyId,
+        name: knownSender.name,
+        status: knownSender.changedFrom !== undefined ? 'changed' : 'known',
+        verified: knownSender.verified,
+        firstSeen: knownSender.firstSeen,
+      }
+    }
+
+    knownSender = {
+      keyId,
+      name,
+      verified: false,
+      firstSeen: Date.now(),
+    }
+    const previousSender = name === null ? undefined : Object.values(this.#knownSenders).find(sender => sender.name === name)
+    if (previousSender !== undefined) {
+      knownSender.changedFrom = previousSender.keyId
+    }
+    if (record) {
+      this.#knownSenders[keyId] = knownSender
+      await this.#save()
+    }
+    return {
+      keyId,
+      name,
+      status: knownSender.changedFrom !== undefined ? 'changed' : 'unknown',
+      verified: false,
+      firstSeen: record ? knownSender.firstSeen : null,
+    }
+  }
+  #isSenderNamePinned(name: string, exceptKeyId: KeyId): boolean {
+    return Object.values(this.#knownSenders).some(sender => sender.name === name && sender.keyId !== exceptKeyId)
+  }
+
+  getSenderName(origin: string): string | null {
+    return this.#perOriginKeyPairs[origin]?.senderName ?? null
+  }
+  /**
+   * Set the name that is sent along with values encrypted for recipients on the origin, so recipients can recognize the user as sender.
+   */
+  async setSenderName(origin: string, senderName: string | null) {
+    const keyPair = await this.getOriginKeyPair(origin)
+    if (senderName === null || senderName.trim() === '') {
+      delete keyPair.senderName
+    } else {
+      keyPair.senderName = senderName.trim()
+    }
+    await this.#save()
+  }
+
   /**
    * Generate and store an ECDH key pair bound to the specified origin and return the key id and the serialized public key.
    */
@@ -708,13 +1288,14 @@ export default class KeyStore {
     )
     const keyObj: SymmetricKey = {
       keyId: await deriveKeyId(key),
-      shortDescription: `Derived from public keys ${ownKeyPair.keyId} (own) and ${othersPublicKey.keyId} (other's). Be aware that the other party will only be able to decrypt values if they successfully received your public key during the key agreement.`,
+      shortDescription: `Derived from public keys ${ownKeyPair.keyId} (own) and ${othersPublicKey.keyId} (other's).`,
       created: new Date(),
       lastUsed: null,
       allowedOrigins: [origin],
       previouslyUsedOnOrigins: [],
       key,
       distributionMode: 'key-agreement',
+      unconfirmedSas: await this.#computeKeyAgreementSas([ownKeyPair, othersPublicKey], origin),
     }
     this.#symmetricKeys[keyObj.keyId] = keyObj
 
@@ -725,18 +1306,532 @@ export default class KeyStore {
     return keyObj
   }
 
+  /**
+   * Generate a group key for a group key agreement and wrap it for each of the other participants.
+   * The group key is wrapped with the key derived (ECDH) from the own key pair and the public key of the respective participant.
+   * Returns the group key and the serialized group key that the web application relays to the other participants (see receiveGroupKey).
+   */
+  async distributeGroupKey(ownKeyPair: KeyAgreementKeyPair, othersPublicKeys: KeyAgreementKeyPair[], origin: string): Promise<[SymmetricKey, string]> {
+    if (origin !== ownKeyPair.origin || othersPublicKeys.some(publicKey => publicKey.origin !== origin)) {
+      throw new BDPParameterError('The origin of the key agreement key pairs does not match the origin of the key derivation.')
+    }
+    if (ownKeyPair.privateKey === undefined) {
+      throw new BDPParameterError('The own key agreement key pair does not contain a private key.')
+    }
+    othersPublicKeys = othersPublicKeys.filter(publicKey => publicKey.keyId !== ownKeyPair.keyId)
+    if (othersPublicKeys.length === 0) {
+      throw new BDPParameterError('A group key agreement requires the public key of at least one other participant.')
+    }
+
+    const key = await crypto.subtle.generateKey(
+      {
+        name: 'AES-GCM',
+        length: 256,
+      },
+      true,
+      ['encrypt', 'decrypt'],
+    )
+    const wrappedKeys: { [keyId: KeyId]: { iv: string, wrappedKey: string } } = Object.create(null)
+    for (const publicKey of othersPublicKeys) {
+      const iv = crypto.getRandomValues(new Uint8Array(12))
+      const wrappedKey = await crypto.subtle.wrapKey('raw', key, await this.#deriveGroupWrappingKey(ownKeyPair, publicKey), {
+        name: 'AES-GCM',
+        iv,
+      })
+      wrappedKeys[publicKey.keyId] = {
+        iv: bufferToBase64(iv),
+        wrappedKey: bufferToBase64(wrappedKey),
+      }
+    }
+
+    const participants = [ownKeyPair, ...othersPublicKeys]
+    const groupKey = btoa(JSON.stringify({
+      origin,
+      senderKeyId: ownKeyPair.keyId,
+      participants: await Promise.all(participants.map(participant => serializeKey(participant.publicKey))),
+      wrappedKeys,
+    }))
+    return [await this.#storeGroupKey(key, ownKeyPair, participants, origin), groupKey]
+  }
+
+  /**
+   * Unwrap a group key distributed by another participant of a group key agreement (see distributeGroupKey).
+   * The group key must have been wrapped for one of the own key agreement key pairs of the origin.
+   */
+  async receiveGroupKey(groupKey: string, origin: string): Promise<SymmetricKey> {
+    let data: any
+    let participants: KeyAgreementKeyPair[]
+    try {
+      data = JSON.parse(atob(groupKey))
+      participants = await Promise.all((data.participants as SerializedKey[]).map(async serializedKey => {
+        const publicKey = await deserializeKey(serializedKey)
+        return {
+          keyId: await deriveKeyId(publicKey),
+          publicKey,
+          origin: data.origin,
+        }
+      }))
+    } catch {
+      throw new BDPParameterError('Invalid group key.')
+    }
+    if (data.origin !== origin) {
+      throw new BDPParameterError('The group key was distributed on a different origin.')
+    }
+    const sender = participants.find(participant => participant.keyId === data.senderKeyId)
+    if (sender === undefined) {
+      throw new BDPParameterError('The sender of the group key is not one of its participants.')
+    }
+    const ownParticipant = participants.find(participant => participant.keyId !== sender.keyId
+      && data.wrappedKeys?.[participant.keyId] !== undefined
+      && this.#keyAgreementKeyPairs[participant.keyId]?.origin === origin)
+    if (ownParticipant === undefined) {
+      throw new BDPParameterError('The group key was not distributed to any of your key pairs.')
+    }
+    const ownKeyPair = this.#keyAgreementKeyPairs[ownParticipant.keyId]
+
+    let key: CryptoKey
+    try {
+      const wrappedKey = data.wrappedKeys[ownKeyPair.keyId]
+      key = await crypto.subtle.unwrapKey(
+        'raw',
+        bufferFromBase64(wrappedKey.wrappedKey),
+        await this.#deriveGroupWrappingKey(ownKeyPair, sender),
+        {
+          name: 'AES-GCM',
+          iv: bufferFromBase64(wrappedKey.iv),
+        },
+        {
+          name: 'AES-GCM',
+          length: 256,
+        },
+        true,
+        ['encrypt', 'decrypt'],
+      )
+    } catch {
+      throw new BDPParameterError('The group key could not be decrypted.')
+    }
+    return await this.#storeGroupKey(key, ownKeyPair, participants, origin)
+  }
+
+  async #deriveGroupWrappingKey(ownKeyPair: KeyAgreementKeyPair, othersPublicKey: KeyAgreementKeyPair): Promise<CryptoKey> {
+    if (ownKeyPair.privateKey === undefined) {
+      throw new BDPParameterError('The own key agreement key pair does not contain a private key.')
+    }
+    return await crypto.subtle.deriveKey(
+      {
+        name: 'ECDH',
+        public: othersPublicKey.publicKey,
+      },
+      ownKeyPair.privateKey,
+      {
+        name: 'AES-GCM',
+        length: 256,
+      },
+      false,
+      ['wrapKey', 'unwrapKey'],
+    )
+  }
+
+  /**
+   * Store the group key of a group key agreement. Like for a key agreement between two parties, it cannot be used before the user confirmed the short authentication string.
+   */
+  async #storeGroupKey(key: CryptoKey, ownKeyPair: KeyAgreementKeyPair, participants: KeyAgreementKeyPair[], origin: string): Promise<SymmetricKey> {
+    const keyId = await deriveKeyId(key)
+    const keyObj: SymmetricKey = {
+      keyId,
+      shortDescription: `Group key of ${participants.length} participants, derived with public key ${ownKeyPair.keyId} (own).`,
+      created: new Date(),
+      lastUsed: null,
+      allowedOrigins: [origin],
+      previouslyUsedOnOrigins: [],
+      key,
+      distributionMode: 'group-key-agreement',
+      unconfirmedSas: await this.#computeKeyAgreementSas(participants, origin, keyId),
+    }
+    this.#symmetricKeys[keyId] = keyObj
+
+    // delete own key agreement key pair so it cannot be re-used
+    delete this.#keyAgreementKeyPairs[ownKeyPair.keyId]
+
+    await this.#save()
+    return keyObj
+  }
+
+  /**
+   * The public keys of a key agreement are relayed by the web application, which could replace them with its own keys (man in the middle).
+   * The short authentication string is derived from all public keys and the origin, so all parties see the same string only if they received each other's keys.
+   * For a group key agreement, it also covers the id of the distributed group key, so all participants see the same string only if they received the same group key.
+   * As there is no commitment to the public keys, a web application relaying the keys knows the keys of the parties before it chooses its own.
+   * It can then search for a pair of its own keys that result in the same string for both sides, which is a birthday search over the length of the string.
+   * The string is therefore 128 bits long, making this search cost about 2^64 key generations.
+   */
+  async #computeKeyAgreementSas(publicKeys: KeyAgreementKeyPair[], origin: string, groupKeyId?: KeyId): Promise<string> {
+    // all parties need to hash the keys in the same order
+    publicKeys = publicKeys.slice().sort((a, b) => a.keyId < b.keyId ? -1 : 1)
+    const data: string[] = [origin]
+    for (const publicKey of publicKeys) {
+      data.push(bufferToBase64(await crypto.subtle.exportKey('spki', publicKey.publicKey)))
+    }
+    if (groupKeyId !== undefined) {
+      data.push(groupKeyId)
+    }
+    return bufferToHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify(data)))).slice(0, 32)
+  }
+
+  #checkKeyAgreementConfirmed(key: SymmetricKey | PasswordKey) {
+    if ('unconfirmedSas' in key && key.unconfirmedSas !== undefined) {
+      throw new DisallowedKeyError(`The key agreement of key ${key.keyId} has not been confirmed yet.`)
+    }
+  }
+
+  getUnconfirmedKeyAgreementKeys(origin: string, distributionMode?: SymmetricKey['distributionMode']): SymmetricKey[] {
+    return this.getSymmetricKeys().filter(key => key.unconfirmedSas !== undefined && isOriginAllowed(key.allowedOrigins, origin)
+      && (distributionMode === undefined || key.distributionMode === distributionMode))
+  }
+
+  /**
+   * Mark a key derived from a key agreement as usable after the user confirmed that all parties see the same short authentication string.
+   */
+  async confirmKeyAgreement(keyId: KeyId) {
+    const key = this.#symmetricKeys[keyId]
+    if (key === undefined) {
+      throw new BDPParameterError(`Key ${keyId} does not exist.`)
+    }
+    delete key.unconfirmedSas
+    await this.#save()
+  }
+
+  isVaultEnabled(): boolean {
+    return this.#vault.enabled
+  }
+  isLocked(): boolean {
+    return this.#vault.locked
+  }
+
+  /**
+   * Enable the vault mode with the provided master passphrase or, if the vault is already enabled (and unlocked), change the master passphrase.
+   */
+  async setMasterPassphrase(passphrase: string) {
+    if (this.#vault.locked) {
+      throw new KeyStoreLockedError('The key store needs to be unlocked to change the master passphrase.')
+    }
+    if (passphrase === '') {
+      throw new BDPParameterError('The master passphrase must not be empty.')
+    }
+    const salt = crypto.getRandomValues(new Uint8Array(30))
+    this.#vaultKey = await derivePasswordKey(passphrase, salt, DEFAULT_PASSWORD_KDF)
+    this.#vaultParameters = {
+      kdf: DEFAULT_PASSWORD_KDF,
+      salt: bufferToBase64(salt),
+    }
+    this.#vault.enabled = true
+    await this.#storeVaultSession()
+    await this.#save()
+  }
+
+  /**
+   * Disable the vault mode, i.e., store the keys without encryption again.
+   */
+  async disableVault() {
+    if (this.#vault.locked) {
+      throw new KeyStoreLockedError('The key store needs to be unlocked to disable the vault.')
+    }
+    this.#vault.enabled = false
+    this.#vaultKey = null
+    this.#vaultParameters = null
+    await chrome.storage.session.remove('vaultSession')
+    await chrome.storage.local.remove('vault')
+    await this.#save()
+  }
+
+  /**
+   * Unlock the vault with the master passphrase and load the keys.
+   */
+  async unlock(passphrase: string) {
+    const storedData = await chrome.storage.local.get(['vault'])
+    const vault: VaultData | undefined = storedData.vault
+    if (vault === undefined) {
+      return
+    }
+    const key = await derivePasswordKey(passphrase, bufferFromBase64(vault.salt), vault.kdf)
+    try {
+      await this.#decryptVault(vault, key)
+    } catch {
+      throw new BDPParameterError('The master passphrase is invalid.')
+    }
+    this.#vaultKey = key
+    await this.#storeVaultSession()
+    await this.load()
+  }
+
+  /**
+   * Lock the vault. The keys are removed from memory and need to be unlocked with the master passphrase again.
+   */
+  async lock() {
+    await chrome.storage.session.remove('vaultSession')
+    this.#vaultKey = null
+    this.#vaultParameters = null
+    this.#vault.locked = true
+    await this.#assignCollections({})
+  }
+
+  /**
+   * Record activity for the idle timeout of the vault, e.g., for an interaction of the user with an extension frame within the page.
+   */
+  async recordActivity() {
+    if (this.#vault.enabled && !this.#vault.locked) {
+      await this.#storeVaultSession()
+    }
+  }
+
+  /**
+   * Lock the vault if the key store has not been used for longer than the idle timeout.
+   */
+  async lockIfIdle() {
+    if (!this.#vault.enabled || this.#vault.locked) {
+      return
+    }
+    const storedSession = await chrome.storage.session.get(['vaultSession'])
+    if (storedSession.vaultSession === undefined || Date.now() - storedSession.vaultSession.lastActivity > VAULT_IDLE_TIMEOUT) {
+      await this.lock()
+    }
+  }
+
+  /**
+   * The unlocked vault key is kept in session storage, which is held in memory only and is not accessible from content scripts.
+   * It is shared between the extension pages (e.g., when re-opening the popup) until the idle timeout elapses.
+   */
+  async #storeVaultSession() {
+    if (this.#vaultKey === null) {
+      return
+    }
+    await chrome.storage.session.set({
+      vaultSession: {
+        key: await crypto.subtle.exportKey('jwk', this.#vaultKey),
+        lastActivity: Date.now(),
+      }
+    })
+  }
+  async #loadVaultSession(): Promise<CryptoKey | null> {
+    const storedSession = await chrome.storage.session.get(['vaultSession'])
+    if (storedSession.vaultSession === undefined) {
+      return null
+    }
+    if (Date.now() - storedSession.vaultSession.lastActivity > VAULT_IDLE_TIMEOUT) {
+      await chrome.storage.session.remove('vaultSession')
+      return null
+    }
+    return await crypto.subtle.importKey('jwk', storedSession.vaultSession.key, 'AES-GCM', true, ['encrypt', 'decrypt'])
+  }
+
+  async #encryptVault(collections: object): Promise<VaultData> {
+    if (this.#vaultKey === null || this.#vaultParameters === null) {
+      throw new KeyStoreLockedError('The key store is locked.')
+    }
+    return Object.assign({
+      version: 1,
+      kdf: this.#vaultParameters.kdf,
+      salt: this.#vaultParameters.salt,
+    }, await this.#encryptCollections(collections, this.#vaultKey))
+  }
+  async #decryptVault(vault: VaultData, key: CryptoKey): Promise<{ [key: string]: object }> {
+    return await this.#decryptCollections(vault, key)
+  }
+
+  /**
+   * Encrypt serialized key collections with AES-GCM, used for the vault and for backups.
+   */
+  async #encryptCollections(collections: object, key: CryptoKey): Promise<{ iv: string, ciphertext: string }> {
+    const iv = crypto.getRandomValues(new Uint8Array(12))
+    const ciphertext = await crypto.subtle.encrypt(
+      {
+        name: 'AES-GCM',
+        iv,
+      },
+      key,
+      new TextEncoder().encode(JSON.stringify(collections)),
+    )
+    return {
+      iv: bufferToBase64(iv),
+      ciphertext: bufferToBase64(ciphertext),
+    }
+  }
+  async #decryptCollections(data: { iv: string, ciphertext: string }, key: CryptoKey): Promise<{ [key: string]: object }> {
+    const plaintext = await crypto.subtle.decrypt(
+      {
+        name: 'AES-GCM',
+        iv: bufferFromBase64(data.iv),
+      },
+      key,
+      bufferFromBase64(data.ciphertext),
+    )
+    return JSON.parse(new TextDecoder().decode(plaintext))
+  }
+
+  /**
+   * Create a backup of all keys, including their metadata, encrypted under a key derived from the backup passphrase.
+   * The backup can be restored with restoreBackup, e.g., in the browser on another device.
+   */
+  async createBackup(passphrase: string): Promise<string> {
+    if (this.#vault.locked) {
+      throw new KeyStoreLockedError('The key store needs to be unlocked to create a backup.')
+    }
+    if (passphrase === '') {
+      throw new BDPParameterError('The backup passphrase must not be empty.')
+    }
+    const salt = crypto.getRandomValues(new Uint8Array(30))
+    const key = await derivePasswordKey(passphrase, salt, DEFAULT_PASSWORD_KDF)
+    const backup: BackupData = Object.assign({
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      created: Date.now(),
+      kdf: DEFAULT_PASSWORD_KDF,
+      salt: bufferToBase64(salt),
+    }, await this.#encryptCollections(await this.#serializeCollections(), key))
+    return JSON.stringify(backup)
+  }
+
+  /**
+   * Restore the keys of a backup created with createBackup. The keys are merged into the existing keys:
+   * Keys are added unless a key with the same key id exists already. Existing recipient keys without private keys are completed with the private keys of the backup.
+   * As with key imports, the key ids are re-derived from the keys, so keys with a forged key id are reported as conflicts and are not restored.
+   * @returns For every key of the backup, whether it was restored or why not.
+   */
+  async restoreBackup(backup: string, passphrase: string): Promise<BackupRestoreEntry[]> {
+    if (this.#vault.locked) {
+      throw new KeyStoreLockedError('The key store needs to be unlocked to restore a backup.')
+    }
+    let backupData: BackupData
+    try {
+      backupData = JSON.parse(backup)
+    } catch {
+      throw new BDPParameterError('The backup file is invalid.')
+    }
+    if (backupData === null || backupData.format !== BACKUP_FORMAT) {
+      throw new BDPParameterError('The backup file is invalid.')
+    }
+    if (backupData.version !== BACKUP_VERSION) {
+      throw new BDPParameterError(`The backup version ${backupData.version} is not supported.`)
+    }
+
+    const kdf = parsePasswordKdf(backupData.kdf)
+    if (kdf === null) {
+      throw new BDPParameterError('The key derivation parameters of the backup are not supported.')
+    }
+    const key = await derivePasswordKey(passphrase, bufferFromBase64(backupData.salt), kdf)
+    let collections: { [key: string]: any }
+    try {
+      collections = await this.#decryptCollections(backupData, key)
+    } catch {
+      throw new BDPParameterError('The backup passphrase is invalid.')
+    }
+
+    const entries: BackupRestoreEntry[] = []
+    const report = (collection: string, keyId: KeyId, status: BackupRestoreEntry['status'], reason?: string) => {
+      entries.push({ collection, keyId, status, reason })
+    }
+
+    for (const key of Object.values(await deserializeValues(collections.symmetricKeys ?? {})) as SymmetricKey[]) {
+      await this.#restoreKey(this.#symmetricKeys, 'symmetricKeys', key, await deriveKeyId(key.key), report)
+    }
+    for (const key of Object.values(await deserializeValues(collections.passwordKeys ?? {})) as PasswordKey[]) {
+      await this.#restoreKey(this.#passwordKeys, 'passwordKeys', key, await deriveKeyId(key.key), report)
+    }
+    for (const key of Object.values(await deserializeValues(collections.keyAgreementKeyPairs ?? {})) as KeyAgreementKeyPair[]) {
+      await this.#restoreKey(this.#keyAgreementKeyPairs, 'keyAgreementKeyPairs', key, await deriveKeyId(key.publicKey), report)
+    }
+    for (const key of Object.values(await deserializeValues(collections.recipientKeys ?? {})) as RecipientKey[]) {
+      if (!await this.#validateRecipientKeyPair(key)) {
+        report('recipientKeys', key.keyId, 'conflict', 'The key id or the private keys do not match the key.')
+        continue
+      }
+      report('recipientKeys', key.keyId, this.#mergeRecipientKey(key))
+    }
+
+    // per-origin key pairs are stored by origin instead of key id
+    for (const [origin, key] of Object.entries(await deserializeValues(collections.perOriginKeyPairs ?? {})) as [string, RecipientKey][]) {
+      if (!await this.#validateRecipientKeyPair(key)) {
+        report('perOriginKeyPairs', key.keyId, 'conflict', 'The key id or the private keys do not match the key.')
+        continue
+      }
+      const existingKey = this.#perOriginKeyPairs[origin]
+      if (existingKey === undefined) {
+        this.#perOriginKeyPairs[origin] = key
+        report('perOriginKeyPairs', key.keyId, 'added')
+      } else if (existingKey.keyId === key.keyId) {
+        report('perOriginKeyPairs', key.keyId, 'unchanged')
+      } else {
+        report('perOriginKeyPairs', key.keyId, 'conflict', `A different key pair (key id ${existingKey.keyId}) is already used on the origin ${origin}.`)
+      }
+    }
+
+    // known senders contain no key, so there is nothing to re-derive
+    for (const knownSender of Object.values(collections.knownSenders ?? {}) as KnownSender[]) {
+      if (this.#knownSenders[knownSender.keyId] !== undefined) {
+        report('knownSenders', knownSender.keyId, 'unchanged')
+        continue
+      }
+      this.#knownSenders[knownSender.keyId] = knownSender
+      report('knownSenders', knownSender.keyId, 'added')
+    }
+
+    await this.#save()
+    return entries
+  }
+  async #restoreKey<T extends { keyId: KeyId }>(collection: { [key: string]: T }, collectionName: string, key: T, derivedKeyId: KeyId, report: (collection: string, keyId: KeyId, status: BackupRestoreEntry['status'], reason?: string) => void) {
+    if (key.keyId !== derivedKeyId) {
+      report(collectionName, key.keyId, 'conflict', 'The key id does not match the key.')
+      return
+    }
+    if (collection[key.keyId] !== undefined) {
+      report(collectionName, key.keyId, 'unchanged')
+      return
+    }
+    collection[key.keyId] = key
+    report(collectionName, key.keyId, 'added')
+  }
+
   /**
    * Load data from storage.
+   * If the vault mode is enabled and the vault is not unlocked (anymore), a KeyStoreLockedError is thrown.
+   * Loading counts as activity for the idle timeout unless recordActivity is false. This is used for loads triggered by the web application (e.g., in-page display),
+   * which must not keep the vault unlocked.
    */
-  async load() {
-    const storedData = await chrome.storage.local.get([
-      'symmetricKeys',
-      'passwordKeys',
-      'recipientKeys',
-      'keyAgreementKeyPairs',
-      'perOriginKeyPairs',
-    ])
+  async load(recordActivity = true) {
+    let storedData = await chrome.storage.local.get(KEY_COLLECTIONS.concat(['vault']))
+
+    if (storedData.vault !== undefined) {
+      const vault: VaultData = storedData.vault
+      this.#vault.enabled = true
+      const key = await this.#loadVaultSession()
+      if (key === null) {
+        await this.lock()
+        throw new KeyStoreLockedError('The key store is locked.')
+      }
+      try {
+        storedData = await this.#decryptVault(vault, key)
+      } catch {
+        await this.lock()
+        throw new KeyStoreLockedError('The key store could not be unlocked.')
+      }
+      this.#vaultKey = key
+      this.#vaultParameters = {
+        kdf: vault.kdf,
+        salt: vault.salt,
+      }
+      this.#vault.locked = false
+      if (recordActivity) {
+        await this.#storeVaultSession()
+      }
+    } else {
+      this.#vault.enabled = false
+      this.#vault.locked = false
+    }
+
+    await this.#assignCollections(storedData)
+  }
 
+  async #assignCollections(storedData: { [key: string]: any }) {
     if (storedData.passwordKeys !== undefined) {
       Object.assign(this.#passwordKeys, await deserializeValues(storedData.passwordKeys))
     } else {
@@ -766,18 +1861,38 @@ export default class KeyStore {
     } else {
       Object.keys(this.#perOriginKeyPairs).forEach(key => delete this.#perOriginKeyPairs[key])
     }
+
+    if (storedData.knownSenders !== undefined) {
+      Object.assign(this.#knownSenders, storedData.knownSenders)
+    } else {
+      Object.keys(this.#knownSenders).forEach(key => delete this.#knownSenders[key])
+    }
   }
 
   /**
    * Save data to storage.
    */
   async #save() {
+    const collections = await this.#serializeCollections()
+    if (!this.#vault.enabled) {
+      await chrome.storage.local.set(collections)
+      return
+    }
+
     await chrome.storage.local.set({
+      vault: await this.#encryptVault(collections),
+    })
+    await chrome.storage.local.remove(KEY_COLLECTIONS)
+    await this.#storeVaultSession()
+  }
+  async #serializeCollections(): Promise<{ [key: string]: object }> {
+    return {
       passwordKeys: await serializeValues(toRaw(this.#passwordKeys)),
       symmetricKeys: await serializeValues(toRaw(this.#symmetricKeys)),
       recipientKeys: await serializeValues(toRaw(this.#recipientKeys)),
       keyAgreementKeyPairs: await serializeValues(toRaw(this.#keyAgreementKeyPairs)),
       perOriginKeyPairs: await serializeValues(toRaw(this.#perOriginKeyPairs)),
-    })
+      knownSenders: Object.assign(Object.create(null), toRaw(this.#knownSenders)),
+    }
   }
 }
\ No newline at end of file
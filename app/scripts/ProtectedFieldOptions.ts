@@ -1,14 +1,52 @@
+/**
+ * Requirements for new passwords of a field in the password protection mode, see passwordPolicy.ts.
+ */
+export interface PasswordPolicy {
+  // the minimum zxcvbn score (0 to 4)
+  minScore?: number
+  minLength?: number
+}
+
 export interface ProtectedFieldOptions {
   protectionMode: 'symmetric' | 'password' | 'recipient'
-  distributionMode?: 'local' | 'direct-plain' | 'external' | 'key-agreement'
+  distributionMode?: 'user-only' | 'direct-plain' | 'external' | 'key-agreement' | 'group-key-agreement'
   readOnly: boolean
   updateMode: 'immediate' | 'on-submit'
+  // Whether the decrypted value is displayed within the page by the extension. The web application still only receives the ciphertext.
+  display: boolean
+  // The kind of input control that is used to edit the value. Values are validated accordingly before they are encrypted.
+  // Files are protected as a whole and are encrypted in chunks (see createProtectedFile).
+  inputType: 'text' | 'textarea' | 'number' | 'date' | 'email' | 'select' | 'file'
+  // For the select input type, the values the user can choose from.
+  selectOptions?: string[]
+  // Where the value is edited: in the browser action popup or in an extension frame shown next to the field within the page.
+  editor: 'popup' | 'inline'
+
+  // An optional human-readable label that identifies the field in the browser action popup (e.g., 'Social security number').
+  label?: string
 
+  // An optional label of the field's purpose (e.g., 'iban'). Ciphertexts are bound to the origin and this context, so they cannot be moved into a field with a different context.
+  context?: string
+
+  // For the recipient protection mode in the direct-plain distribution mode, either a single recipient public key or a list of recipient public keys is provided.
   recipientPublicKey?: string
+  recipientPublicKeys?: string[]
+
+  // For the password protection mode, requirements for new passwords. They can only tighten the extension's own minimum requirements.
+  passwordPolicy?: PasswordPolicy
 
   // A callback that is executed when the ciphertext value of this field changes. Also triggered when the value is set/updated by the web application.
   ciphertextChangedCallback?: (ciphertext: string | null) => void
 
+  // A callback that is executed when the extension re-encrypted the value of this field after a key rotation. Allows the web application to replace stored copies of the old ciphertext.
+  ciphertextReencryptedCallback?: (newCiphertext: string, oldCiphertext: string) => void
+
+  // A callback that is executed when the extension reports an error for this field, e.g., if the provided ciphertext cannot be decrypted.
+  errorCallback?: (error: Error & { code: string }) => void
+
   // A callback that is executed when a public key is provided to be used with this field. This is applicable for symmetric protection in the key-agreement distribution mode and for recipient protection in the direct-plain distribution mode.
   publicKeyProvidedCallback?: (publicKey: string, publicKeyId: string) => void
+
+  // A callback that is executed when the extension distributes a group key in the group-key-agreement distribution mode. The web application relays it to the other participants (see provideGroupKey).
+  groupKeyProvidedCallback?: (groupKey: string) => void
 }
\ No newline at end of file
@@ -1,3 +1,4 @@
+import type { BrowserDataProtection, Capabilities, ErrorCode, InputType, ProtectedField as ProtectedFieldInterface, ProtectedList as ProtectedListInterface, ProtectionMode } from "../../typings";
 import { ProtectedFieldOptions } from "./ProtectedFieldOptions";
 
 /**
@@ -5,7 +6,19 @@ import { ProtectedFieldOptions } from "./ProtectedFieldOptions";
  * Consequently, this script does not get access to any sensitive data, as it can be manipulated by the web application's code.
  */
 (function () {
-  const VALID_OPTIONS = {
+  // semantic version of the API provided to web applications
+  const API_VERSION = '1.0.0'
+
+  const VALID_OPTIONS: { inputType: InputType[], protectionMode: ProtectionMode[], distributionMode: Capabilities['distributionModes'] } = {
+    inputType: [
+      'text',
+      'textarea',
+      'number',
+      'date',
+      'email',
+      'select',
+      'file',
+    ],
     protectionMode: [
       'symmetric',
       'password',
@@ -29,18 +42,205 @@ import { ProtectedFieldOptions } from "./ProtectedFieldOptions";
         mode: 'key-agreement',
         protectionModes: ['symmetric'],
       },
+      {
+        mode: 'group-key-agreement',
+        protectionModes: ['symmetric'],
+      },
     ]
   }
+  // upper bound of the minimum password length a web application can require, so that users can still choose a password
+  const MAX_PASSWORD_POLICY_LENGTH = 128
+
+  /**
+   * Errors of the API carry a code, as the web application cannot access the error classes of the extension.
+   */
+  class BDPError extends Error {
+    readonly code: ErrorCode
+
+    constructor(code: ErrorCode, message: string) {
+      super(message)
+      this.name = 'BDPError'
+      this.code = code
+    }
+  }
+
+  // the ISOLATED content script announces that it is ready to receive messages. Messages are only sent afterwards.
+  let resolveReady: () => void
+  const ready = new Promise<void>(resolve => {
+    resolveReady = resolve
+  })
+
+  function sendMessage(message: object) {
+    ready.then(() => {
+      window.postMessage(Object.assign({
+        context: 'bdp',
+      }, message))
+    })
+  }
+
+  // fields and lists that have been requested, but not yet acknowledged by the content script
+  const pendingCreations: { [key: number]: { resolve: () => void, reject: (error: BDPError) => void } } = {}
+
+  /**
+   * Send a message that creates a field or list and wait for the acknowledgement of the content script.
+   */
+  function sendCreateMessage(id: number, message: object): Promise<void> {
+    return new Promise((resolve, reject) => {
+      pendingCreations[id] = { resolve, reject }
+      sendMessage(message)
+    })
+  }
+
+  /**
+   * Validate the options of a protected field or list and fill in the defaults.
+   */
+  function validateOptions(options: ProtectedFieldOptions) {
+    if (options.protectionMode === undefined) {
+      throw new BDPError('INVALID_OPTIONS', `ProtectedField missing required option 'protectionMode'`)
+    }
+    if (!VALID_OPTIONS.protectionMode.includes(options.protectionMode)) {
+      throw new BDPError('INVALID_OPTIONS', `ProtectedField invalid protectionMode '${options.protectionMode}'`)
+    }
+
+    if (options.protectionMode === 'password') {
+      if (options.distributionMode !== undefined) {
+        throw new BDPError('INVALID_OPTIONS', `ProtectedField protectionMode '${options.protectionMode}' does not allow a distribution mode`)
+      }
+    } else {
+      if (options.distributionMode === undefined) {
+        throw new BDPError('INVALID_OPTIONS', `ProtectedField missing required option 'distributionMode'`)
+      }
+      const validCombinations = VALID_OPTIONS.distributionMode.find((x: any) => x.mode === options.distributionMode)
+      if (validCombinations === undefined) {
+        throw new BDPError('INVALID_OPTIONS', `ProtectedField invalid distributionMode '${options.distributionMode}'`)
+      }
+      if (!validCombinations.protectionModes.includes(options.protectionMode)) {
+        throw new BDPError('INVALID_OPTIONS', `ProtectedField invalid combination of protectionMode '${options.protectionMode}' and distributionMode '${options.distributionMode}'`)
+      }
+    }
+
+    if (options.readOnly === undefined) {
+      options.readOnly = false
+    }
+    if (typeof options.readOnly !== 'boolean') {
+      throw new BDPError('INVALID_OPTIONS', `ProtectedField invalid readOnly '${options.readOnly}'`)
+    }
 
-  class ProtectedField {
+    if (options.updateMode === undefined) {
+      options.updateMode = 'immediate'
+    }
+    if (options.updateMode !== 'immediate' && options.updateMode !== 'on-submit') {
+      throw new BDPError('INVALID_OPTIONS', `ProtectedField invalid updateMode '${options.updateMode}'`)
+    }
+
+    if (options.display === undefined) {
+      options.display = false
+    }
+    if (typeof options.display !== 'boolean') {
+      throw new BDPError('INVALID_OPTIONS', `ProtectedField invalid display '${options.display}'`)
+    }
+
+    if (options.inputType === undefined) {
+      options.inputType = 'text'
+    }
+    if (!VALID_OPTIONS.inputType.includes(options.inputType)) {
+      throw new BDPError('INVALID_OPTIONS', `ProtectedField invalid inputType '${options.inputType}'`)
+    }
+    if (options.inputType === 'select') {
+      if (options.selectOptions === undefined) {
+        throw new BDPError('INVALID_OPTIONS', `ProtectedField missing required option 'selectOptions'`)
+      }
+      if (!Array.isArray(options.selectOptions) || options.selectOptions.length === 0 || options.selectOptions.some(option => typeof option !== 'string')) {
+        throw new BDPError('INVALID_OPTIONS', `ProtectedField invalid selectOptions '${options.selectOptions}'`)
+      }
+      options.selectOptions = options.selectOptions.slice()
+    } else if (options.selectOptions !== undefined) {
+      throw new BDPError('INVALID_OPTIONS', `ProtectedField inputType '${options.inputType}' does not allow selectOptions`)
+    }
+
+    if (options.inputType === 'file' && options.display) {
+      throw new BDPError('INVALID_OPTIONS', `ProtectedField inputType 'file' does not allow display`)
+    }
+
+    if (options.editor === undefined) {
+      options.editor = 'popup'
+    }
+    if (options.editor !== 'popup' && options.editor !== 'inline') {
+      throw new BDPError('INVALID_OPTIONS', `ProtectedField invalid editor '${options.editor}'`)
+    }
+
+    if (options.context !== undefined && (typeof options.context !== 'string' || options.context === '')) {
+      throw new BDPError('INVALID_OPTIONS', `ProtectedField invalid context '${options.context}'`)
+    }
+
+    if (options.label !== undefined && (typeof options.label !== 'string' || options.label === '')) {
+      throw new BDPError('INVALID_OPTIONS', `ProtectedField invalid label '${options.label}'`)
+    }
+
+    if (options.passwordPolicy !== undefined) {
+      if (options.protectionMode !== 'password') {
+        throw new BDPError('INVALID_OPTIONS', `ProtectedField protectionMode '${options.protectionMode}' does not allow a passwordPolicy`)
+      }
+      const policy = options.passwordPolicy
+      if (typeof policy !== 'object' || policy === null || Object.keys(policy).some(key => key !== 'minScore' && key !== 'minLength')) {
+        throw new BDPError('INVALID_OPTIONS', `ProtectedField invalid passwordPolicy '${policy}'`)
+      }
+      if (policy.minScore !== undefined && (!Number.isInteger(policy.minScore) || policy.minScore < 0 || policy.minScore > 4)) {
+        throw new BDPError('INVALID_OPTIONS', `ProtectedField invalid passwordPolicy minScore '${policy.minScore}'`)
+      }
+      if (policy.minLength !== undefined && (!Number.isInteger(policy.minLength) || policy.minLength < 1 || policy.minLength > MAX_PASSWORD_POLICY_LENGTH)) {
+        throw new BDPError('INVALID_OPTIONS', `ProtectedField invalid passwordPolicy minLength '${policy.minLength}'`)
+      }
+      options.passwordPolicy = {
+        minScore: policy.minScore,
+        minLength: policy.minLength,
+      }
+    }
+
+    if (options.protectionMode === 'recipient') {
+      if (options.distributionMode === 'direct-plain') {
+        if (options.recipientPublicKey === undefined && options.recipientPublicKeys === undefined) {
+          throw new BDPError('INVALID_OPTIONS', `ProtectedField missing required option 'recipientPublicKey' or 'recipientPublicKeys'`)
+        }
+        if (options.recipientPublicKey !== undefined && options.recipientPublicKeys !== undefined) {
+          throw new BDPError('INVALID_OPTIONS', `ProtectedField does not allow both 'recipientPublicKey' and 'recipientPublicKeys'`)
+        }
+        if (options.recipientPublicKey !== undefined && typeof options.recipientPublicKey !== 'string') {
+          throw new BDPError('INVALID_OPTIONS', `ProtectedField invalid recipientPublicKey '${options.recipientPublicKey}'`)
+        }
+        if (options.recipientPublicKeys !== undefined) {
+          if (!Array.isArray(options.recipientPublicKeys) || options.recipientPublicKeys.length === 0 || options.recipientPublicKeys.some(key => typeof key !== 'string')) {
+            throw new BDPError('INVALID_OPTIONS', `ProtectedField invalid recipientPublicKeys '${options.recipientPublicKeys}'`)
+          }
+          options.recipientPublicKeys = options.recipientPublicKeys.slice()
+        }
+      } else {
+        if (options.recipientPublicKey !== undefined || options.recipientPublicKeys !== undefined) {
+          throw new BDPError('INVALID_OPTIONS', `ProtectedField protectionMode '${options.protectionMode}' with distributionMode '${options.distributionMode}' does not allow a recipientPublicKey`)
+        }
+      }
+    } else {
+      if (options.recipientPublicKey !== undefined || options.recipientPublicKeys !== undefined) {
+        throw new BDPError('INVALID_OPTIONS', `ProtectedField protectionMode '${options.protectionMode}' does not allow a recipientPublicKey`)
+      }
+    }
+  }
+
+  class ProtectedField implements ProtectedFieldInterface {
     #fieldId: number
+    #element: Element
+    #destroyed = false
     #options: ProtectedFieldOptions
     #ciphertextValue: null | string
     #ciphertextChangedCallback?: (ciphertext: string | null) => void
     #publicKeyProvidedCallback?: (publicKey: string, publicKeyId: string) => void
+    #groupKeyProvidedCallback?: (groupKey: string) => void
+    #ciphertextReencryptedCallback?: (newCiphertext: string, oldCiphertext: string) => void
+    #errorCallback?: (error: BDPError) => void
 
-    constructor(fieldId: number, options: any) {
+    constructor(fieldId: number, element: Element, options: any) {
       this.#fieldId = fieldId
+      this.#element = element
       this.#options = Object.assign(Object.create(null), options)
       if (this.#options.ciphertextChangedCallback !== undefined) {
         this.#ciphertextChangedCallback = this.#options.ciphertextChangedCallback
@@ -50,9 +250,21 @@ import { ProtectedFieldOptions } from "./ProtectedFieldOptions";
         this.#publicKeyProvidedCallback = this.#options.publicKeyProvidedCallback
         delete this.#options.publicKeyProvidedCallback
       }
+      if (this.#options.groupKeyProvidedCallback !== undefined) {
+        this.#groupKeyProvidedCallback = this.#options.groupKeyProvidedCallback
+        delete this.#options.groupKeyProvidedCallback
+      }
+      if (this.#options.ciphertextReencryptedCallback !== undefined) {
+        this.#ciphertextReencryptedCallback = this.#options.ciphertextReencryptedCallback
+        delete this.#options.ciphertextReencryptedCallback
+      }
+      if (this.#options.errorCallback !== undefined) {
+        this.#errorCallback = this.#options.errorCallback
+        delete this.#options.errorCallback
+      }
       this.#ciphertextValue = null
 
-      this.#validateOptions()
+      validateOptions(this.#options)
     }
 
     get options(): ProtectedFieldOptions {
@@ -63,17 +275,26 @@ import { ProtectedFieldOptions } from "./ProtectedFieldOptions";
       return this.#ciphertextValue
     }
 
+    get destroyed(): boolean {
+      return this.#destroyed
+    }
+
     /**
      * Provide the public key of the other party for this field.
      * Also, if already generated before, provide the public key id of this party again to the web application to allow for an unambiguous key derivation.
+     * In the group-key-agreement distribution mode, the public key of each other participant is provided by a separate call.
      */
     providePublicKey(othersPublicKey: string, ownPublicKeyId?: string) {
-      if (this.#options.distributionMode !== 'key-agreement') {
-        throw new Error(`ProtectedField ${this.#fieldId}: providePublicKey is only supported for key-agreement distribution mode, where the other parties' public key may be provided asynchronously.`)
+      this.#checkNotDestroyed()
+      if (this.#options.distributionMode !== 'key-agreement' && this.#options.distributionMode !== 'group-key-agreement') {
+        throw new BDPError('INVALID_STATE', `ProtectedField ${this.#fieldId}: providePublicKey is only supported for key-agreement and group-key-agreement distribution modes, where the other parties' public key may be provided asynchronously.`)
       }
 
-      window.postMessage({
-        context: 'bdp',
+      if (typeof othersPublicKey !== 'string' || (ownPublicKeyId !== undefined && typeof ownPublicKeyId !== 'string')) {
+        throw new BDPError('INVALID_ARGUMENT', `ProtectedField ${this.#fieldId}: invalid public key`)
+      }
+
+      sendMessage({
         operation: 'provideFieldPublicKey',
         othersPublicKey,
         ownPublicKeyId,
@@ -81,6 +302,26 @@ import { ProtectedFieldOptions } from "./ProtectedFieldOptions";
       })
     }
 
+    /**
+     * Provide the group key that another participant distributed for this field (see groupKeyProvidedCallback).
+     */
+    provideGroupKey(groupKey: string) {
+      this.#checkNotDestroyed()
+      if (this.#options.distributionMode !== 'group-key-agreement') {
+        throw new BDPError('INVALID_STATE', `ProtectedField ${this.#fieldId}: provideGroupKey is only supported for group-key-agreement distribution mode.`)
+      }
+
+      if (typeof groupKey !== 'string') {
+        throw new BDPError('INVALID_ARGUMENT', `ProtectedField ${this.#fieldId}: invalid group key`)
+      }
+
+      sendMessage({
+        operation: 'provideFieldGroupKey',
+        groupKey,
+        fieldId: this.#fieldId,
+      })
+    }
+
     /**
      * Update the ciphertext value, not caused by the web application.
      * If provided, the callback of this field is executed.
@@ -103,72 +344,49 @@ import { ProtectedFieldOptions } from "./ProtectedFieldOptions";
       console.warn(`ProtectedField ${this.#fieldId} received a public key, but no callback was provided.`)
     }
 
-    #validateOptions() {
-      if (this.#options.protectionMode === undefined) {
-        throw new Error(`ProtectedField missing required option 'protectionMode'`)
-      }
-      if (!VALID_OPTIONS.protectionMode.includes(this.#options.protectionMode)) {
-        throw new Error(`ProtectedField invalid protectionMode '${this.#options.protectionMode}'`)
-      }
-
-      if (this.#options.protectionMode === 'password') {
-        if (this.#options.distributionMode !== undefined) {
-          throw new Error(`ProtectedField protectionMode '${this.#options.protectionMode}' does not allow a distribution mode`)
-        }
-      } else {
-        if (this.#options.distributionMode === undefined) {
-          throw new Error(`ProtectedField missing required option 'distributionMode'`)
-        }
-        const validCombinations = VALID_OPTIONS.distributionMode.find((x: any) => x.mode === this.#options.distributionMode)
-        if (validCombinations === undefined) {
-          throw new Error(`ProtectedField invalid distributionMode '${this.#options.distributionMode}'`)
-        }
-        if (!validCombinations.protectionModes.includes(this.#options.protectionMode)) {
-          throw new Error(`ProtectedField invalid combination of protectionMode '${this.#options.protectionMode}' and distributionMode '${this.#options.distributionMode}'`)
-        }
-      }
-
-      if (this.#options.readOnly === undefined) {
-        this.#options.readOnly = false
-      }
-      if (typeof this.#options.readOnly !== 'boolean') {
-        throw new Error(`ProtectedField invalid readOnly '${this.#options.readOnly}'`)
+    /**
+     * Provide a group key distributed by this party to be relayed to the other participants.
+     */
+    _provideGroupKey(groupKey: string) {
+      if (this.#groupKeyProvidedCallback !== undefined) {
+        this.#groupKeyProvidedCallback(groupKey)
+        return
       }
+      console.warn(`ProtectedField ${this.#fieldId} received a group key, but no callback was provided.`)
+    }
 
-      if (this.#options.updateMode === undefined) {
-        this.#options.updateMode = 'immediate'
-      }
-      if (this.#options.updateMode !== 'immediate' && this.#options.updateMode !== 'on-submit') {
-        throw new Error(`ProtectedField invalid updateMode '${this.#options.updateMode}'`)
+    /**
+     * Notify the web application that the value of this field was re-encrypted after a key rotation.
+     * The new ciphertext value itself is updated separately.
+     */
+    _ciphertextReencrypted(newCiphertext: string, oldCiphertext: string) {
+      if (this.#ciphertextReencryptedCallback !== undefined) {
+        this.#ciphertextReencryptedCallback(newCiphertext, oldCiphertext)
       }
+    }
 
-      if (this.#options.protectionMode === 'recipient') {
-        if (this.#options.distributionMode === 'direct-plain') {
-          if (this.#options.recipientPublicKey === undefined) {
-            throw new Error(`ProtectedField missing required option 'recipientPublicKey'`)
-          }
-          if (typeof this.#options.recipientPublicKey !== 'string') {
-            throw new Error(`ProtectedField invalid recipientPublicKey '${this.#options.recipientPublicKey}'`)
-          }
-        } else {
-          if (this.#options.recipientPublicKey !== undefined) {
-            throw new Error(`ProtectedField protectionMode '${this.#options.protectionMode}' with distributionMode '${this.#options.distributionMode}' does not allow a recipientPublicKey`)
-          }
-        }
-      } else {
-        if (this.#options.recipientPublicKey !== undefined) {
-          throw new Error(`ProtectedField protectionMode '${this.#options.protectionMode}' does not allow a recipientPublicKey`)
-        }
+    /**
+     * Report an error of the extension for this field, e.g., a ciphertext that cannot be decrypted.
+     */
+    _reportError(code: ErrorCode, message: string) {
+      const error = new BDPError(code, message)
+      if (this.#errorCallback !== undefined) {
+        this.#errorCallback(error)
+        return
       }
+      console.warn(`ProtectedField ${this.#fieldId}:`, error)
     }
 
     /**
      * Set the ciphertext of this field.
      */
     setCiphertext(ciphertext: null | string) {
+      this.#checkNotDestroyed()
+      if (ciphertext !== null && typeof ciphertext !== 'string') {
+        throw new BDPError('INVALID_ARGUMENT', `ProtectedField ${this.#fieldId}: invalid ciphertext`)
+      }
       this._updateCiphertextValue(ciphertext)
-      window.postMessage({
-        context: 'bdp',
+      sendMessage({
         operation: 'setFieldCiphertext',
         ciphertext: ciphertext,
         fieldId: this.#fieldId,
@@ -178,34 +396,403 @@ import { ProtectedFieldOptions } from "./ProtectedFieldOptions";
     clearCiphertext() {
       this.setCiphertext(null)
     }
+
+    /**
+     * Destroy this field, e.g., before the web application removes its element. The element can be used for a new field afterwards.
+     * Fields are also destroyed automatically once their element is removed from the document.
+     */
+    destroy() {
+      if (this.#destroyed) {
+        return
+      }
+      this._cleanUp()
+      sendMessage({
+        operation: 'destroyProtectedField',
+        fieldId: this.#fieldId,
+      })
+    }
+
+    /**
+     * Release the element of this field after it was destroyed by the web application or the extension.
+     */
+    _cleanUp() {
+      this.#destroyed = true
+      delete protectedFields[this.#fieldId]
+      this.#element.removeAttribute('bdp-fieldId')
+      this.#element.classList.remove('bdpfield', `bdpfield-${this.#fieldId}`)
+      this.#element.dispatchEvent(new CustomEvent('bdp-destroyed'))
+    }
+
+    #checkNotDestroyed() {
+      if (this.#destroyed) {
+        throw new BDPError('INVALID_STATE', `ProtectedField ${this.#fieldId} has been destroyed`)
+      }
+    }
+  }
+
+  /**
+   * A list of protected values that are decrypted and displayed by the extension at once, e.g., the rows of a table.
+   * The values are rendered inside an extension frame, i.e., the plaintext values are never returned to the web application.
+   * All values of a list share the same options.
+   */
+  class ProtectedList implements ProtectedListInterface {
+    #listId: number
+    #element: Element
+    #destroyed = false
+    #options: ProtectedFieldOptions
+    #ciphertextValues: (null | string)[]
+
+    constructor(listId: number, element: Element, options: any) {
+      this.#listId = listId
+      this.#element = element
+      this.#options = Object.assign(Object.create(null), options)
+      this.#ciphertextValues = []
+
+      validateOptions(this.#options)
+      if (this.#options.inputType === 'file') {
+        throw new BDPError('INVALID_OPTIONS', `ProtectedList inputType 'file' is not supported`)
+      }
+      // values of a list are only displayed
+      this.#options.readOnly = true
+    }
+
+    get options(): ProtectedFieldOptions {
+      return Object.assign(Object.create(null), this.#options)
+    }
+
+    get ciphertextValues(): (null | string)[] {
+      return this.#ciphertextValues.slice()
+    }
+
+    get destroyed(): boolean {
+      return this.#destroyed
+    }
+
+    /**
+     * Set the ciphertexts of this list. Null values are displayed as empty entries.
+     */
+    setCiphertexts(ciphertexts: (null | string)[]) {
+      if (this.#destroyed) {
+        throw new BDPError('INVALID_STATE', `ProtectedList ${this.#listId} has been destroyed`)
+      }
+      if (!Array.isArray(ciphertexts) || ciphertexts.some(ciphertext => ciphertext !== null && typeof ciphertext !== 'string')) {
+        throw new BDPError('INVALID_ARGUMENT', `ProtectedList ${this.#listId}: invalid ciphertexts`)
+      }
+      this.#ciphertextValues = ciphertexts.slice()
+      sendMessage({
+        operation: 'setListCiphertexts',
+        ciphertexts: this.#ciphertextValues,
+        listId: this.#listId,
+      })
+    }
+
+    clearCiphertexts() {
+      this.setCiphertexts([])
+    }
+
+    /**
+     * Destroy this list. Lists are also destroyed automatically once their element is removed from the document.
+     */
+    destroy() {
+      if (this.#destroyed) {
+        return
+      }
+      this._cleanUp()
+      sendMessage({
+        operation: 'destroyProtectedList',
+        listId: this.#listId,
+      })
+    }
+
+    /**
+     * Release the element of this list after it was destroyed by the web application or the extension.
+     */
+    _cleanUp() {
+      this.#destroyed = true
+      delete protectedLists[this.#listId]
+      this.#element.removeAttribute('bdp-listId')
+      this.#element.classList.remove('bdplist', `bdplist-${this.#listId}`)
+      this.#element.dispatchEvent(new CustomEvent('bdp-destroyed'))
+    }
   }
 
   const protectedFields: { [key: number]: ProtectedField } = {}
+  const protectedLists: { [key: number]: ProtectedList } = {}
 
-  function createProtectedField(element: Element, options: any) {
+  /**
+   * Create a protected field. Resolves once the extension has set up the field.
+   */
+  async function createProtectedField(element: Element, options: any): Promise<ProtectedField> {
     const fieldId = window.crypto.getRandomValues(new Uint32Array(1))[0]
 
+    if (!(element instanceof Element)) {
+      throw new BDPError('INVALID_ARGUMENT', 'ProtectedField requires an element')
+    }
     if (element.getAttribute('bdp-fieldId') !== null) {
-      throw new Error('Element already initialized as a ProtecedField')
+      throw new BDPError('INVALID_STATE', 'Element already initialized as a ProtecedField')
     }
 
     // ProtectedField constructor validates options
-    const protectedField = new ProtectedField(fieldId, options)
+    const protectedField = new ProtectedField(fieldId, element, options)
 
     element.setAttribute('bdp-fieldId', fieldId.toString())
     element.classList.add('bdpfield')
     element.classList.add(`bdpfield-${fieldId}`)
-    window.postMessage({
-      context: 'bdp',
-      operation: 'createProtectedField',
-      options: protectedField.options,
-      fieldId
-    })
-
     protectedFields[fieldId] = protectedField
+    try {
+      await sendCreateMessage(fieldId, {
+        operation: 'createProtectedField',
+        options: protectedField.options,
+        fieldId
+      })
+    } catch (e) {
+      // the element can be initialized again
+      delete protectedFields[fieldId]
+      element.removeAttribute('bdp-fieldId')
+      element.classList.remove('bdpfield', `bdpfield-${fieldId}`)
+      throw e
+    }
+
     return protectedField
   }
 
+  /**
+   * Create a protected field for a file. The user selects the file in the extension, the web application only receives the encrypted file.
+   */
+  async function createProtectedFile(element: Element, options: any): Promise<ProtectedField> {
+    if (options?.inputType !== undefined && options.inputType !== 'file') {
+      throw new BDPError('INVALID_OPTIONS', `ProtectedFile invalid inputType '${options.inputType}'`)
+    }
+    return await createProtectedField(element, Object.assign({}, options, {
+      inputType: 'file',
+    }))
+  }
+
+  /**
+   * Create a protected list. Resolves once the extension has set up the list.
+   */
+  async function createProtectedList(element: Element, options: any, ciphertexts: (null | string)[] = []): Promise<ProtectedList> {
+    const listId = window.crypto.getRandomValues(new Uint32Array(1))[0]
+
+    if (!(element instanceof Element)) {
+      throw new BDPError('INVALID_ARGUMENT', 'ProtectedList requires an element')
+    }
+    if (element.getAttribute('bdp-listId') !== null) {
+      throw new BDPError('INVALID_STATE', 'Element already initialized as a ProtectedList')
+    }
+
+    // ProtectedList constructor validates options
+    const protectedList = new ProtectedList(listId, element, options)
+
+    element.setAttribute('bdp-listId', listId.toString())
+    element.classList.add('bdplist')
+    element.classList.add(`bdplist-${listId}`)
+    protectedLists[listId] = protectedList
+    try {
+      await sendCreateMessage(listId, {
+        operation: 'createProtectedList',
+        options: protectedList.options,
+        listId
+      })
+    } catch (e) {
+      // the element can be initialized again
+      delete protectedLists[listId]
+      element.removeAttribute('bdp-listId')
+      element.classList.remove('bdplist', `bdplist-${listId}`)
+      throw e
+    }
+
+    if (ciphertexts.length > 0) {
+      protectedList.setCiphertexts(ciphertexts)
+    }
+    return protectedList
+  }
+
+  /**
+   * Declarative API: elements with a data-bdp-protection attribute are turned into protected fields without any JavaScript of the web application.
+   * The remaining options are read from further data-bdp-* attributes and validated like the options of createProtectedField.
+   * If a data-bdp-name attribute is given, the ciphertext is mirrored into a hidden input with this name, so that the field can be submitted with a regular HTML form.
+   */
+  function parseBooleanAttribute(value: string): boolean | string {
+    if (value === '' || value === 'true') {
+      return true
+    }
+    if (value === 'false') {
+      return false
+    }
+    // rejected by validateOptions
+    return value
+  }
+
+  function parseJsonAttribute(value: string): any {
+    try {
+      return JSON.parse(value)
+    } catch {
+      // rejected by validateOptions
+      return value
+    }
+  }
+
+  // attribute, option and the parser of the attribute value
+  const DECLARATIVE_ATTRIBUTES: [string, keyof ProtectedFieldOptions, (value: string) => any][] = [
+    ['data-bdp-protection', 'protectionMode', String],
+    ['data-bdp-distribution', 'distributionMode', String],
+    ['data-bdp-read-only', 'readOnly', parseBooleanAttribute],
+    ['data-bdp-update-mode', 'updateMode', String],
+    ['data-bdp-display', 'display', parseBooleanAttribute],
+    ['data-bdp-editor', 'editor', String],
+    ['data-bdp-input-type', 'inputType', String],
+    ['data-bdp-select-options', 'selectOptions', parseJsonAttribute],
+    ['data-bdp-context', 'context', String],
+    ['data-bdp-label', 'label', String],
+    ['data-bdp-recipient-public-key', 'recipientPublicKey', String],
+    ['data-bdp-recipient-public-keys', 'recipientPublicKeys', parseJsonAttribute],
+    ['data-bdp-password-policy', 'passwordPolicy', parseJsonAttribute],
+  ]
+
+  // elements that have already been picked up, as the creation of a field is asynchronous
+  const declarativeElements = new WeakSet<Element>()
+
+  /**
+   * Report an error of a declarative field as a (cancelable) bdp-error event on its element. Logged if the web application does not handle it.
+   */
+  function reportDeclarativeError(element: Element, error: BDPError) {
+    const handled = !element.dispatchEvent(new CustomEvent('bdp-error', {
+      detail: { error },
+      cancelable: true,
+    }))
+    if (!handled) {
+      console.error('BDP: declarative ProtectedField', element, error)
+    }
+  }
+
+  async function createDeclarativeField(element: Element) {
+    declarativeElements.add(element)
+
+    const options: any = {}
+    for (const [attribute, option, parse] of DECLARATIVE_ATTRIBUTES) {
+      const value = element.getAttribute(attribute)
+      if (value !== null) {
+        options[option] = parse(value)
+      }
+    }
+
+    let input: HTMLInputElement | null = null
+    const name = element.getAttribute('data-bdp-name')
+    if (name !== null) {
+      input = document.createElement('input')
+      input.type = 'hidden'
+      input.name = name
+      element.after(input)
+    }
+    options.ciphertextChangedCallback = (ciphertext: string | null) => {
+      if (input !== null) {
+        input.value = ciphertext ?? ''
+      }
+      element.dispatchEvent(new CustomEvent('bdp-ciphertext-changed', {
+        detail: { ciphertext },
+      }))
+    }
+    options.errorCallback = (error: BDPError) => reportDeclarativeError(element, error)
+
+    let protectedField: ProtectedField
+    try {
+      protectedField = await createProtectedField(element, options)
+    } catch (error) {
+      input?.remove()
+      reportDeclarativeError(element, error as BDPError)
+      return
+    }
+
+    // the element may be protected again, e.g., if a single-page application re-inserts it
+    element.addEventListener('bdp-destroyed', () => {
+      input?.remove()
+      declarativeElements.delete(element)
+    }, { once: true })
+
+    const ciphertext = element.getAttribute('data-bdp-ciphertext')
+    if (ciphertext !== null && ciphertext !== '') {
+      protectedField.setCiphertext(ciphertext)
+    }
+    // allows the web application to access the field, e.g., to set a new ciphertext
+    element.dispatchEvent(new CustomEvent('bdp-created', {
+      detail: { protectedField },
+    }))
+  }
+
+  function createDeclarativeFields(root: Element | Document) {
+    const elements = Array.from(root.querySelectorAll('[data-bdp-protection]'))
+    if (root instanceof Element && root.matches('[data-bdp-protection]')) {
+      elements.push(root)
+    }
+    for (const element of elements) {
+      if (!declarativeElements.has(element) && element.getAttribute('bdp-fieldId') === null) {
+        createDeclarativeField(element)
+      }
+    }
+  }
+
+  // also picks up elements that are added later, e.g., by single-page application frameworks
+  new MutationObserver(mutations => {
+    for (const mutation of mutations) {
+      if (mutation.type === 'attributes') {
+        createDeclarativeFields(mutation.target as Element)
+        continue
+      }
+      mutation.addedNodes.forEach(node => {
+        if (node instanceof Element) {
+          createDeclarativeFields(node)
+        }
+      })
+    }
+  }).observe(document, {
+    childList: true,
+    subtree: true,
+    attributes: true,
+    attributeFilter: ['data-bdp-protection'],
+  })
+  createDeclarativeFields(document)
+
+  // Listen to messages from the ISOLATED content script. These do not contain any sensitive data.
+  window.addEventListener('message', (event) => {
+    if (event.source !== window || event.data?.context !== 'bdp') {
+      return
+    }
+    const id = event.data.fieldId ?? event.data.listId
+    switch (event.data.operation) {
+      case 'contentReady':
+        resolveReady()
+        break
+      case 'protectedElementCreated':
+        pendingCreations[id]?.resolve()
+        delete pendingCreations[id]
+        break
+      case 'protectedElementDestroyed':
+        // the element was removed from the document
+        if (event.data.fieldId !== undefined) {
+          protectedFields[event.data.fieldId]?._cleanUp()
+        } else {
+          protectedLists[event.data.listId]?._cleanUp()
+        }
+        break
+      case 'operationFailed':
+        if (pendingCreations[id] !== undefined) {
+          pendingCreations[id].reject(new BDPError(event.data.code, event.data.message))
+          delete pendingCreations[id]
+        } else if (protectedFields[id] !== undefined) {
+          protectedFields[id]._reportError(event.data.code, event.data.message)
+        } else {
+          console.warn(new BDPError(event.data.code, event.data.message))
+        }
+        break
+    }
+  })
+  // the content script may have been loaded first
+  window.postMessage({
+    context: 'bdp',
+    operation: 'apiReady',
+  })
+
   // @ts-expect-error
   window._bdp_internal_message = (message: any) => {
     switch (message.operation) {
@@ -221,13 +808,44 @@ import { ProtectedFieldOptions } from "./ProtectedFieldOptions";
         }
         protectedFields[message.fieldId]._providePublicKey(message.publicKey, message.publicKeyId)
         break
+      case 'provideGroupKey':
+        if (protectedFields[message.fieldId] === undefined) {
+          throw new Error(`BDP: Unknown fieldId: ${message.fieldId}`)
+        }
+        protectedFields[message.fieldId]._provideGroupKey(message.groupKey)
+        break
+      case 'ciphertextReencrypted':
+        if (protectedFields[message.fieldId] === undefined) {
+          throw new Error(`BDP: Unknown fieldId: ${message.fieldId}`)
+        }
+        protectedFields[message.fieldId]._ciphertextReencrypted(message.newCiphertext, message.oldCiphertext)
+        break
+      case 'reportError':
+        if (protectedFields[message.fieldId] === undefined) {
+          throw new Error(`BDP: Unknown fieldId: ${message.fieldId}`)
+        }
+        protectedFields[message.fieldId]._reportError(message.code, message.message)
+        break
       default:
         throw new Error(`BDP: Unknown operation: ${message.operation}`)
     }
   }
 
-  // @ts-expect-error
-  window.browserDataProtection = {
-    createProtectedField
+  const browserDataProtection: BrowserDataProtection = {
+    version: API_VERSION,
+    capabilities: {
+      protectionModes: VALID_OPTIONS.protectionMode.slice(),
+      distributionModes: VALID_OPTIONS.distributionMode.map(x => ({
+        mode: x.mode,
+        protectionModes: x.protectionModes.slice(),
+      })),
+      inputTypes: VALID_OPTIONS.inputType.slice(),
+    },
+    ready,
+    BDPError,
+    createProtectedField,
+    createProtectedFile,
+    createProtectedList,
   }
+  window.browserDataProtection = Object.freeze(browserDataProtection)
 })();
\ No newline at end of file
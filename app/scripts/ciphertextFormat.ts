@@ -0,0 +1,258 @@
+import { InvalidCiphertextError } from './errors'
+import { EncodedCiphertext, EncodedValueAndSignature, KeyId } from './KeyStore'
+import { LEGACY_PASSWORD_KDF, PasswordKdfParameters, parsePasswordKdf } from './passwordKdf'
+import { ProtectedFieldOptions } from './ProtectedFieldOptions'
+import { SerializedKey } from './utils'
+
+/**
+ * Ciphertexts are handed to the web application as a self-describing JSON envelope that names the format version, the protection mode,
+ * the used algorithms and (for password keys) the key derivation parameters.
+ * Web applications may store ciphertexts for years, so every format version that has ever been emitted needs to remain decodable.
+ * Ciphertexts without a version field were emitted before the envelope was introduced and are treated as version 0.
+ *
+ * Format versions:
+ * 0: unversioned JSON without header.
+ * 1: header with protection mode and algorithms.
+ * 2: the ciphertext is bound to the origin and the field context through the AES-GCM additional authenticated data.
+ *    The header names the field context (if any) so that a ciphertext moved to another field can be reported as such.
+ * 3: recipient ciphertexts list all recipients (recipientKeyIds) instead of a single recipient (recipientKeyId).
+ * 4: recipient ciphertexts may name the sender (signedSenderName), signed with the sender's key.
+ * 5: password ciphertexts may name Argon2id as key derivation function (kdf) and other parameters than the initial PBKDF2 parameters.
+ */
+export const CIPHERTEXT_FORMAT_VERSION = 5
+
+/**
+ * Encrypted files are handed to the web application in a separate envelope that contains the chunks (see fileEncryption.ts)
+ * and the header, i.e., the file key encrypted with the key of the field as a regular ciphertext.
+ *
+ * File format versions:
+ * 1: initial version.
+ */
+export const FILE_CIPHERTEXT_FORMAT_VERSION = 1
+
+export const SYMMETRIC_ALGORITHM = 'AES-256-GCM'
+export const FILE_ALGORITHM = 'AES-256-GCM-STREAM'
+export const KEY_ENCAPSULATION_ALGORITHM = 'RSA-OAEP-4096-SHA-256'
+export const SIGNATURE_ALGORITHM = 'ECDSA-P521-SHA-512'
+
+export interface CiphertextData {
+  keyId: KeyId
+  iv: string
+  ciphertext: EncodedCiphertext
+  // The field context the ciphertext is bound to (null for fields without context). Undefined if the ciphertext predates the binding.
+  context?: string | null
+}
+export interface PasswordKeyCiphertextData extends CiphertextData {
+  salt: string
+  kdf: PasswordKdfParameters
+}
+export interface RecipientCiphertextData {
+  encryptedEphemeralKey: { [key: KeyId]: EncodedCiphertext }
+  signedEphemeralKeyId: EncodedValueAndSignature
+  senderSigningPublicKey: SerializedKey
+  senderKeyId: KeyId
+  // the name chosen by the sender, signed with the sender's key. Undefined if the sender provided no name.
+  signedSenderName?: EncodedValueAndSignature
+  recipientKeyIds: KeyId[]
+  encryptedValue: CiphertextData
+}
+
+type ProtectionMode = ProtectedFieldOptions['protectionMode']
+
+interface EnvelopeHeader {
+  version: number
+  protectionMode: ProtectionMode
+  algorithm: string
+}
+
+function encodeEnvelope(protectionMode: ProtectionMode, data: object, additionalHeader: object = {}): string {
+  const header: EnvelopeHeader = {
+    version: CIPHERTEXT_FORMAT_VERSION,
+    protectionMode,
+    algorithm: SYMMETRIC_ALGORITHM,
+  }
+  return JSON.stringify(Object.assign(header, additionalHeader, data))
+}
+
+/**
+ * Parse a ciphertext envelope and check the header for the expected protection mode.
+ * Returns the parsed object and the format version it was encoded with.
+ */
+function decodeEnvelope(ciphertext: string, protectionMode: ProtectionMode): [any, number] {
+  let data: any
+  try {
+    data = JSON.parse(ciphertext)
+  } catch {
+    throw new InvalidCiphertextError('Invalid ciphertext.')
+  }
+  if (typeof data !== 'object' || data === null) {
+    throw new InvalidCiphertextError('Invalid ciphertext.')
+  }
+
+  const version = data.version ?? 0
+  if (!Number.isInteger(version) || version < 0) {
+    throw new InvalidCiphertextError('Invalid ciphertext.')
+  }
+  if (version > CIPHERTEXT_FORMAT_VERSION) {
+    throw new InvalidCiphertextError(`The ciphertext format version ${version} is not supported by this version of BrowserDataProtection.`)
+  }
+  if (version >= 1) {
+    if (data.protectionMode !== protectionMode) {
+      throw new InvalidCiphertextError(`The ciphertext was created for the protection mode '${data.protectionMode}' rather than '${protectionMode}'.`)
+    }
+    if (data.algorithm !== SYMMETRIC_ALGORITHM) {
+      throw new InvalidCiphertextError(`The ciphertext algorithm '${data.algorithm}' is not supported.`)
+    }
+  }
+  return [data, version]
+}
+
+/**
+ * The additional authenticated data binds a ciphertext to the origin and the field context it was created for.
+ */
+export function encodeAdditionalData(origin: string, context: string | null): Uint8Array {
+  return new TextEncoder().encode(JSON.stringify([origin, context]))
+}
+
+/**
+ * Read the field context from the header of a (version >= 2) envelope.
+ * Returns an empty object for older envelopes, which are not bound to a context.
+ */
+function decodeContext(data: any, version: number): { context?: string | null } {
+  if (version < 2) {
+    return {}
+  }
+  if (data.context !== null && typeof data.context !== 'string') {
+    throw new InvalidCiphertextError('Invalid ciphertext.')
+  }
+  return {
+    context: data.context,
+  }
+}
+
+function isCiphertextData(data: any): boolean {
+  return typeof data === 'object' && data !== null && typeof data.keyId === 'string' && typeof data.iv === 'string' && typeof data.ciphertext === 'string'
+}
+
+function pickCiphertextData(data: CiphertextData): CiphertextData {
+  return {
+    keyId: data.keyId,
+    iv: data.iv,
+    ciphertext: data.ciphertext,
+  }
+}
+
+export function encodeSymmetricCiphertext(data: CiphertextData): EncodedCiphertext {
+  return encodeEnvelope('symmetric', pickCiphertextData(data), {
+    context: data.context ?? null,
+  })
+}
+export function decodeSymmetricCiphertext(ciphertext: string): CiphertextData {
+  const [data, version] = decodeEnvelope(ciphertext, 'symmetric')
+  if (!isCiphertextData(data)) {
+    throw new InvalidCiphertextError('Invalid ciphertext.')
+  }
+  return Object.assign(pickCiphertextData(data), decodeContext(data, version))
+}
+
+export function encodePasswordCiphertext(data: PasswordKeyCiphertextData): EncodedCiphertext {
+  return encodeEnvelope('password', Object.assign(pickCiphertextData(data), {
+    salt: data.salt,
+  }), {
+    context: data.context ?? null,
+    kdf: data.kdf,
+  })
+}
+export function decodePasswordCiphertext(ciphertext: string): PasswordKeyCiphertextData {
+  const [data, version] = decodeEnvelope(ciphertext, 'password')
+  if (!isCiphertextData(data) || typeof data.salt !== 'string') {
+    throw new InvalidCiphertextError('Invalid ciphertext.')
+  }
+  // unversioned ciphertexts were always derived with the initial parameters
+  const kdf = parsePasswordKdf(version === 0 ? LEGACY_PASSWORD_KDF : data.kdf)
+  if (kdf === null) {
+    throw new InvalidCiphertextError('The key derivation parameters of the ciphertext are not supported.')
+  }
+  return Object.assign(pickCiphertextData(data), decodeContext(data, version), {
+    salt: data.salt,
+    kdf,
+  })
+}
+
+export function encodeRecipientCiphertext(data: RecipientCiphertextData): EncodedCiphertext {
+  return encodeEnvelope('recipient', Object.assign({}, data, {
+    encryptedValue: pickCiphertextData(data.encryptedValue),
+  }), {
+    context: data.encryptedValue.context ?? null,
+    keyEncapsulation: KEY_ENCAPSULATION_ALGORITHM,
+    signature: SIGNATURE_ALGORITHM,
+  })
+}
+export function decodeRecipientCiphertext(ciphertext: string): RecipientCiphertextData {
+  const [data, version] = decodeEnvelope(ciphertext, 'recipient')
+  if (typeof data.encryptedEphemeralKey !== 'object' || data.encryptedEphemeralKey === null || typeof data.signedEphemeralKeyId !== 'string' || data.senderSigningPublicKey === undefined || typeof data.senderKeyId !== 'string' || !isCiphertextData(data.encryptedValue)) {
+    throw new InvalidCiphertextError('Invalid ciphertext.')
+  }
+  // before version 3, every ciphertext had exactly one recipient
+  const recipientKeyIds = version < 3 ? [data.recipientKeyId] : data.recipientKeyIds
+  if (!Array.isArray(recipientKeyIds) || recipientKeyIds.length === 0 || recipientKeyIds.some(keyId => typeof keyId !== 'string')) {
+    throw new InvalidCiphertextError('Invalid ciphertext.')
+  }
+  if (version >= 1 && (data.keyEncapsulation !== KEY_ENCAPSULATION_ALGORITHM || data.signature !== SIGNATURE_ALGORITHM)) {
+    throw new InvalidCiphertextError('The key encapsulation or signature algorithm of the ciphertext is not supported.')
+  }
+  // before version 4, the sender was never named
+  const signedSenderName = version < 4 ? undefined : data.signedSenderName
+  if (signedSenderName !== undefined && typeof signedSenderName !== 'string') {
+    throw new InvalidCiphertextError('Invalid ciphertext.')
+  }
+  return {
+    encryptedEphemeralKey: data.encryptedEphemeralKey,
+    signedEphemeralKeyId: data.signedEphemeralKeyId,
+    senderSigningPublicKey: data.senderSigningPublicKey,
+    senderKeyId: data.senderKeyId,
+    signedSenderName,
+    recipientKeyIds,
+    // the context of the header applies to the encrypted value
+    encryptedValue: Object.assign(pickCiphertextData(data.encryptedValue), decodeContext(data, version)),
+  }
+}
+
+export interface FileCiphertextData {
+  header: EncodedCiphertext
+  chunks: string[]
+}
+
+export function encodeFileCiphertext(data: FileCiphertextData): EncodedCiphertext {
+  return JSON.stringify({
+    version: FILE_CIPHERTEXT_FORMAT_VERSION,
+    type: 'file',
+    algorithm: FILE_ALGORITHM,
+    header: data.header,
+    chunks: data.chunks,
+  })
+}
+export function decodeFileCiphertext(ciphertext: string): FileCiphertextData {
+  let data: any
+  try {
+    data = JSON.parse(ciphertext)
+  } catch {
+    throw new InvalidCiphertextError('Invalid ciphertext.')
+  }
+  if (typeof data !== 'object' || data === null || data.type !== 'file') {
+    throw new InvalidCiphertextError('The ciphertext is not an encrypted file.')
+  }
+  if (data.version !== FILE_CIPHERTEXT_FORMAT_VERSION) {
+    throw new InvalidCiphertextError(`The file ciphertext format version ${data.version} is not supported by this version of BrowserDataProtection.`)
+  }
+  if (data.algorithm !== FILE_ALGORITHM) {
+    throw new InvalidCiphertextError(`The file algorithm '${data.algorithm}' is not supported.`)
+  }
+  if (typeof data.header !== 'string' || !Array.isArray(data.chunks) || data.chunks.length === 0 || data.chunks.some((chunk: any) => typeof chunk !== 'string')) {
+    throw new InvalidCiphertextError('Invalid ciphertext.')
+  }
+  return {
+    header: data.header,
+    chunks: data.chunks,
+  }
+}
\ No newline at end of file
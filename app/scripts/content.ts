@@ -3,52 +3,233 @@
  */
 
 import InternalProtectedField from './InternalProtectedField'
+import InternalProtectedList from './InternalProtectedList'
 import { ProtectedFieldOptions } from './ProtectedFieldOptions'
+import { getErrorCode } from './errors'
+import { isValidPasswordPolicy } from './passwordPolicy'
 
 const internalProtectedFields: { [key: number]: InternalProtectedField } = Object.create(null)
+const internalProtectedLists: { [key: number]: InternalProtectedList } = Object.create(null)
 
-function createProtectedField(fieldId: number, options: ProtectedFieldOptions) {
+/**
+ * Send a message to the API (MAIN world). The web application can read these messages, so they must not contain sensitive data.
+ */
+function sendApiMessage(message: object) {
+  window.postMessage(Object.assign({
+    context: 'bdp',
+  }, message))
+}
+
+async function createProtectedField(fieldId: number, options: ProtectedFieldOptions) {
+  if (!isValidPasswordPolicy(options.passwordPolicy)) {
+    throw new Error(`Invalid password policy of field ${fieldId}`)
+  }
   const element = document.getElementsByClassName(`bdpfield-${fieldId}`)[0]
   if (element === undefined) {
     throw new Error(`Field with bdp id ${fieldId} not found`)
   }
   const internalProtectedField = new InternalProtectedField(fieldId, location.origin, element as HTMLElement, options)
-  internalProtectedField.sendFieldCreated()
-  internalProtectedField.addClickListener()
   internalProtectedFields[fieldId] = internalProtectedField
+  try {
+    await internalProtectedField.sendFieldCreated()
+  } catch (e) {
+    delete internalProtectedFields[fieldId]
+    throw e
+  }
+  internalProtectedField.addClickListener()
+  if (options.display) {
+    internalProtectedField.renderDisplayFrame()
+  }
+  sendApiMessage({
+    operation: 'protectedElementCreated',
+    fieldId,
+  })
 }
 
-// Listen to message from the web application (api.ts, MAIN world content script)
-window.addEventListener('message', (event) => {
-  if (event.source !== window || event.data.context !== 'bdp') {
-    return
+async function createProtectedList(listId: number, options: ProtectedFieldOptions) {
+  if (!isValidPasswordPolicy(options.passwordPolicy)) {
+    throw new Error(`Invalid password policy of list ${listId}`)
+  }
+  const element = document.getElementsByClassName(`bdplist-${listId}`)[0]
+  if (element === undefined) {
+    throw new Error(`List with bdp id ${listId} not found`)
+  }
+  const internalProtectedList = new InternalProtectedList(listId, location.origin, element as HTMLElement, options)
+  internalProtectedLists[listId] = internalProtectedList
+  try {
+    await internalProtectedList.sendListCreated()
+  } catch (e) {
+    delete internalProtectedLists[listId]
+    throw e
   }
+  internalProtectedList.renderFrame()
+  sendApiMessage({
+    operation: 'protectedElementCreated',
+    listId,
+  })
+}
+
+/**
+ * Destroy a field, e.g., on request of the web application or after its element was removed from the document.
+ */
+async function destroyProtectedField(fieldId: number) {
+  const field = internalProtectedFields[fieldId]
+  if (field === undefined) {
+    throw new Error(`Unknown fieldId: ${fieldId}`)
+  }
+  delete internalProtectedFields[fieldId]
+  await field.destroy()
+}
+
+async function destroyProtectedList(listId: number) {
+  const list = internalProtectedLists[listId]
+  if (list === undefined) {
+    throw new Error(`Unknown listId: ${listId}`)
+  }
+  delete internalProtectedLists[listId]
+  await list.destroy()
+}
+
+/**
+ * Destroy the fields and lists whose elements are no longer part of the document, and notify the API about it.
+ */
+function destroyDetachedElements() {
+  for (const field of Object.values(internalProtectedFields)) {
+    if (!field.element.isConnected) {
+      destroyProtectedField(field.fieldId).catch(console.warn)
+      sendApiMessage({
+        operation: 'protectedElementDestroyed',
+        fieldId: field.fieldId,
+      })
+    }
+  }
+  for (const list of Object.values(internalProtectedLists)) {
+    if (!list.element.isConnected) {
+      destroyProtectedList(list.listId).catch(console.warn)
+      sendApiMessage({
+        operation: 'protectedElementDestroyed',
+        listId: list.listId,
+      })
+    }
+  }
+}
+
+async function handleApiMessage(data: any) {
   let field: InternalProtectedField
-  switch (event.data.operation) {
+  let list: InternalProtectedList
+  switch (data.operation) {
+    case 'apiReady':
+      sendApiMessage({
+        operation: 'contentReady',
+      })
+      break
+    case 'contentReady':
+    case 'protectedElementCreated':
+    case 'protectedElementDestroyed':
+    case 'operationFailed':
+      // messages of this script to the API
+      break
     case 'createProtectedField':
-      createProtectedField(event.data.fieldId, event.data.options)
+      await createProtectedField(data.fieldId, data.options)
       break
     case 'setFieldCiphertext':
-      field = internalProtectedFields[event.data.fieldId]
+      field = internalProtectedFields[data.fieldId]
       if (field === undefined) {
-        throw new Error(`Unknown fieldId: ${event.data.fieldId}`)
+        throw new Error(`Unknown fieldId: ${data.fieldId}`)
       }
-      field.setCiphertextValue(event.data.ciphertext)
+      field.setCiphertextValue(data.ciphertext)
       break
     case 'provideFieldPublicKey':
-      field = internalProtectedFields[event.data.fieldId]
+      field = internalProtectedFields[data.fieldId]
+      if (field === undefined) {
+        throw new Error(`Unknown fieldId: ${data.fieldId}`)
+      }
+      field.setPublicKeyData(data.othersPublicKey, data.ownPublicKeyId)
+      break
+    case 'provideFieldGroupKey':
+      field = internalProtectedFields[data.fieldId]
       if (field === undefined) {
-        throw new Error(`Unknown fieldId: ${event.data.fieldId}`)
+        throw new Error(`Unknown fieldId: ${data.fieldId}`)
+      }
+      field.setGroupKeyData(data.groupKey)
+      break
+    case 'createProtectedList':
+      await createProtectedList(data.listId, data.options)
+      break
+    case 'setListCiphertexts':
+      list = internalProtectedLists[data.listId]
+      if (list === undefined) {
+        throw new Error(`Unknown listId: ${data.listId}`)
       }
-      field.setPublicKeyData(event.data.othersPublicKey, event.data.ownPublicKeyId)
+      list.setCiphertextValues(data.ciphertexts)
+      break
+    case 'destroyProtectedField':
+      await destroyProtectedField(data.fieldId)
+      break
+    case 'destroyProtectedList':
+      await destroyProtectedList(data.listId)
       break
     case 'clearAllActiveFields':
       // clear (selection of) all active fields
       InternalProtectedField.clearAllActiveFields()
       break
     default:
-      throw new Error(`Unknown operation: ${event.data.operation}`)
+      throw new Error(`Unknown operation: ${data.operation}`)
+  }
+}
+
+// Listen to message from the web application (api.ts, MAIN world content script)
+window.addEventListener('message', (event) => {
+  if (event.source !== window || event.data.context !== 'bdp') {
+    return
+  }
+  handleApiMessage(event.data).catch((error: Error) => {
+    // report the error to the web application
+    sendApiMessage({
+      operation: 'operationFailed',
+      fieldId: event.data.fieldId,
+      listId: event.data.listId,
+      code: getErrorCode(error),
+      message: error.message,
+    })
+  })
+})
+
+// Single-page applications remove elements of fields and lists without destroying them, e.g., when unmounting a component
+new MutationObserver(mutations => {
+  if (mutations.some(mutation => mutation.removedNodes.length > 0)) {
+    destroyDetachedElements()
+  }
+}).observe(document, {
+  childList: true,
+  subtree: true,
+})
+
+// Block the submission of forms that contain a field whose ciphertext does not reflect the newest changes of the user yet,
+// e.g., while waiting for a typing pause or before the user finished editing in the on-submit update mode.
+// Registered in the capture phase, so that the submit handlers of the web application are not executed either.
+window.addEventListener('submit', (event) => {
+  const form = event.target
+  if (!(form instanceof HTMLFormElement)) {
+    return
   }
+  const staleFields = Object.values(internalProtectedFields).filter(field => !field.ciphertextFresh && form.contains(field.element))
+  if (staleFields.length === 0) {
+    return
+  }
+  event.preventDefault()
+  event.stopImmediatePropagation()
+  for (const field of staleFields) {
+    field.element.classList.add('bdpfield-stale')
+  }
+  staleFields[0].element.scrollIntoView({
+    block: 'center',
+  })
+}, true)
+
+// the API may have been loaded first
+sendApiMessage({
+  operation: 'contentReady',
 })
 
 // Notify background script that the content script is ready (i.e., the page was just (re)loaded)
@@ -66,6 +247,19 @@ chrome.runtime.onMessage.addListener((message: any, sender: chrome.runtime.Messa
     case 'clearAllActiveFields':
       InternalProtectedField.clearAllActiveFields()
       break
+    case 'selectField':
+      // the message is sent to all frames of the tab
+      internalProtectedFields[message.fieldId]?.select()
+      break
+    case 'historyStateUpdated':
+      // the web application navigated without reloading the page (History API)
+      InternalProtectedField.clearAllActiveFields()
+      destroyDetachedElements()
+      break
+    case 'updateCiphertextFresh':
+      // the message is sent to all frames of the tab
+      internalProtectedFields[message.fieldId]?.setCiphertextFresh(message.ciphertextFresh)
+      break
     default:
       throw new Error(`Unknown operation: ${message.operation}`)
   }
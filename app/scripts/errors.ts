@@ -0,0 +1,46 @@
+import type { ErrorCode } from '../../typings'
+
+export class BDPParameterError extends Error { }
+export class KeyMissingError extends BDPParameterError { }
+export class DisallowedKeyError extends BDPParameterError { }
+export class InvalidCiphertextError extends BDPParameterError { }
+export class ContextMismatchError extends InvalidCiphertextError { }
+export class InvalidValueError extends BDPParameterError { }
+// the key asks before it is used on an origin it has not been used on before, see KeyStore.confirmKeyOrigin
+export class OriginConfirmationRequiredError extends DisallowedKeyError {
+  keyId: string
+  origin: string
+
+  constructor(keyId: string, origin: string) {
+    super(`The key ${keyId} has not been used on the origin ${origin} before. Its use on this origin needs to be confirmed.`)
+    this.keyId = keyId
+    this.origin = origin
+  }
+}
+
+export class KeyStoreLockedError extends Error { }
+
+/**
+ * Map an error to the code that is reported to the web application, which cannot access the error classes of the extension.
+ */
+export function getErrorCode(error: Error): ErrorCode {
+  if (error instanceof ContextMismatchError) {
+    return 'CONTEXT_MISMATCH'
+  }
+  if (error instanceof InvalidCiphertextError) {
+    return 'INVALID_CIPHERTEXT'
+  }
+  if (error instanceof KeyMissingError) {
+    return 'KEY_MISSING'
+  }
+  if (error instanceof DisallowedKeyError) {
+    return 'DISALLOWED_KEY'
+  }
+  if (error instanceof InvalidValueError) {
+    return 'INVALID_VALUE'
+  }
+  if (error instanceof BDPParameterError) {
+    return 'PARAMETER_ERROR'
+  }
+  return 'INTERNAL_ERROR'
+}
\ No newline at end of file
@@ -0,0 +1,115 @@
+import { InvalidCiphertextError, InvalidValueError } from './errors'
+import { bufferFromBase64, bufferToBase64 } from './utils'
+
+/**
+ * Files are encrypted with a fresh file key in authenticated chunks, following the STREAM construction:
+ * The nonce of every chunk consists of a random prefix, the chunk index, and a flag that marks the last chunk.
+ * Consequently, reordering, dropping, or truncating chunks is detected during decryption.
+ * The file key and the file metadata are encrypted with the key of the field like any other value.
+ */
+export const FILE_CHUNK_SIZE = 64 * 1024
+// the ciphertext is kept in the tab state (session storage), which has a limited quota
+export const MAX_FILE_SIZE = 4 * 1024 * 1024
+
+const NONCE_PREFIX_LENGTH = 7
+
+/**
+ * The plaintext that is encrypted with the key of the field.
+ */
+export interface FileKeyData {
+  key: string
+  noncePrefix: string
+  chunkSize: number
+  name: string
+  type: string
+  size: number
+}
+
+function chunkNonce(noncePrefix: Uint8Array, index: number, last: boolean): Uint8Array {
+  const nonce = new Uint8Array(12)
+  nonce.set(noncePrefix)
+  new DataView(nonce.buffer).setUint32(NONCE_PREFIX_LENGTH, index)
+  nonce[11] = last ? 1 : 0
+  return nonce
+}
+
+/**
+ * Encrypt a file chunk by chunk with a newly generated file key.
+ * Returns the file key data (to be encrypted with the key of the field) and the encrypted chunks.
+ */
+export async function encryptFile(file: File): Promise<[FileKeyData, string[]]> {
+  if (file.size > MAX_FILE_SIZE) {
+    throw new InvalidValueError(`The file is too large. Files of up to ${MAX_FILE_SIZE / 1024 / 1024} MiB are supported.`)
+  }
+  const key = await crypto.subtle.generateKey(
+    {
+      name: 'AES-GCM',
+      length: 256,
+    },
+    true,
+    ['encrypt', 'decrypt'],
+  )
+  const noncePrefix = crypto.getRandomValues(new Uint8Array(NONCE_PREFIX_LENGTH))
+
+  // an empty file consists of a single (empty) last chunk
+  const chunkCount = Math.max(1, Math.ceil(file.size / FILE_CHUNK_SIZE))
+  const chunks: string[] = []
+  for (let i = 0; i < chunkCount; i++) {
+    const plaintext = await file.slice(i * FILE_CHUNK_SIZE, (i + 1) * FILE_CHUNK_SIZE).arrayBuffer()
+    const ciphertext = await crypto.subtle.encrypt(
+      {
+        name: 'AES-GCM',
+        iv: chunkNonce(noncePrefix, i, i === chunkCount - 1),
+      },
+      key,
+      plaintext,
+    )
+    chunks.push(bufferToBase64(ciphertext))
+  }
+
+  return [{
+    key: bufferToBase64(await crypto.subtle.exportKey('raw', key)),
+    noncePrefix: bufferToBase64(noncePrefix),
+    chunkSize: FILE_CHUNK_SIZE,
+    name: file.name,
+    type: file.type,
+    size: file.size,
+  }, chunks]
+}
+
+/**
+ * Decrypt the chunks of a file with the (decrypted) file key data.
+ */
+export async function decryptFile(fileKeyData: FileKeyData, chunks: string[]): Promise<Blob> {
+  let key: CryptoKey
+  try {
+    key = await crypto.subtle.importKey('raw', bufferFromBase64(fileKeyData.key), 'AES-GCM', false, ['decrypt'])
+  } catch {
+    throw new InvalidCiphertextError('Invalid file key.')
+  }
+  const noncePrefix = new Uint8Array(bufferFromBase64(fileKeyData.noncePrefix))
+  if (noncePrefix.length !== NONCE_PREFIX_LENGTH) {
+    throw new InvalidCiphertextError('Invalid file key.')
+  }
+
+  const plaintextChunks: ArrayBuffer[] = []
+  for (let i = 0; i < chunks.length; i++) {
+    try {
+      plaintextChunks.push(await crypto.subtle.decrypt(
+        {
+          name: 'AES-GCM',
+          iv: chunkNonce(noncePrefix, i, i === chunks.length - 1),
+        },
+        key,
+        bufferFromBase64(chunks[i]),
+      ))
+    } catch {
+      throw new InvalidCiphertextError('The encrypted file is invalid or incomplete.')
+    }
+  }
+  const file = new Blob(plaintextChunks, { type: fileKeyData.type })
+  if (file.size !== fileKeyData.size) {
+    throw new InvalidCiphertextError('The encrypted file is invalid or incomplete.')
+  }
+  return file
+}
\ No newline at end of file
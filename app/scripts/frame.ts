@@ -0,0 +1,11 @@
+import { createApp } from 'vue'
+
+
+import App from '../frame/App.vue'
+
+import 'spectre.css/dist/spectre.min.css'
+import 'spectre.css/dist/spectre-icons.min.css'
+import '@fortawesome/fontawesome-free/css/all.css'
+
+const app = createApp(App)
+app.mount('#frame')
\ No newline at end of file
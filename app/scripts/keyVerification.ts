@@ -0,0 +1,119 @@
+import QRCode from 'qrcode'
+import jsQR from 'jsqr'
+import { KeyId } from './KeyStore'
+
+/**
+ * Key ids are verified by comparing them with the key owner via an external channel, e.g., in person or on the phone.
+ * To make this practical, a key id is represented as safety words (one word per byte) or as a QR code that can be scanned from an image.
+ * Verification codes are accepted in all of these representations, see parseVerificationCode.
+ */
+
+// 256 distinct words, the index of a word is the byte value it represents
+const SAFETY_WORDS = [
+  'acid', 'acorn', 'actor', 'adult', 'agent', 'alarm', 'album', 'alley', 'amber', 'angle', 'ankle', 'apple', 'apron',
+  'arena', 'armor', 'arrow', 'atlas', 'attic', 'award', 'bacon', 'badge', 'bagel', 'baker', 'bamboo', 'banjo', 'barn',
+  'basil', 'basin', 'beach', 'beard', 'beetle', 'bell', 'bench', 'berry', 'bison', 'blade', 'block', 'bloom', 'board',
+  'boat', 'bonus', 'boot', 'bottle', 'bowl', 'brain', 'brick', 'bridge', 'broom', 'brush', 'bucket', 'bugle', 'bunny',
+  'burger', 'butter', 'cabin', 'cable', 'cactus', 'camel', 'candle', 'canoe', 'canyon', 'carbon', 'carpet', 'carrot',
+  'castle', 'cedar', 'cellar', 'chain', 'chair', 'chalk', 'cherry', 'chess', 'chief', 'circle', 'clock', 'cloud',
+  'clover', 'coach', 'cobra', 'cocoa', 'comet', 'coral', 'cotton', 'cousin', 'cowboy', 'crab', 'crane', 'crayon',
+  'crown', 'cube', 'curtain', 'cycle', 'daisy', 'dancer', 'delta', 'denim', 'desert', 'dinner', 'donkey', 'dragon',
+  'drum', 'eagle', 'easel', 'echo', 'elbow', 'ember', 'engine', 'falcon', 'fence', 'ferry', 'fiddle', 'field',
+  'finger', 'flag', 'flute', 'forest', 'fossil', 'fox', 'frog', 'garden', 'garlic', 'ginger', 'giraffe', 'globe',
+  'glove', 'goat', 'gold', 'grape', 'gravel', 'guitar', 'hammer', 'harbor', 'harp', 'hazel', 'helmet', 'heron', 'hill',
+  'honey', 'hornet', 'horse', 'hotel', 'igloo', 'iron', 'island', 'ivory', 'jacket', 'jaguar', 'jelly', 'jewel',
+  'jungle', 'kayak', 'kernel', 'kettle', 'kitten', 'koala', 'ladder', 'lagoon', 'lamp', 'lantern', 'lemon', 'lily',
+  'lion', 'lizard', 'llama', 'locket', 'magnet', 'mango', 'maple', 'marble', 'meadow', 'melon', 'mirror', 'monkey',
+  'moose', 'mosaic', 'motor', 'muffin', 'needle', 'nest', 'noodle', 'oasis', 'ocean', 'olive', 'onion', 'orange',
+  'orbit', 'otter', 'oyster', 'paddle', 'palace', 'panda', 'paper', 'parrot', 'peach', 'peanut', 'pebble', 'pencil',
+  'pepper', 'piano', 'pillow', 'pilot', 'pirate', 'planet', 'plum', 'pocket', 'pony', 'potato', 'pumpkin', 'puzzle',
+  'quartz', 'quilt', 'rabbit', 'radar', 'radio', 'raven', 'ribbon', 'river', 'robot', 'rocket', 'saddle', 'salmon',
+  'sandal', 'satin', 'scarf', 'shadow', 'shell', 'silver', 'sketch', 'sled', 'snail', 'spider', 'sponge', 'statue',
+  'summit', 'sunset', 'swan', 'tablet', 'tiger', 'tomato', 'tulip', 'tunnel', 'turtle', 'valley', 'velvet', 'violin',
+  'volcano', 'wagon', 'walnut', 'walrus', 'whale', 'willow', 'window', 'wizard', 'yogurt', 'zebra', 'zipper',
+]
+
+// prefix of the QR code payload, followed by the key id
+const QR_PAYLOAD_PREFIX = 'bdp-key:'
+
+const KEY_ID_REGEX = /^[0-9a-f]{32}$/
+
+function hexToSafetyWords(value: string): string[] {
+  const words: string[] = []
+  for (let i = 0; i < value.length; i += 2) {
+    words.push(SAFETY_WORDS[parseInt(value.slice(i, i + 2), 16)])
+  }
+  return words
+}
+export function keyIdToSafetyWords(keyId: KeyId): string[] {
+  return hexToSafetyWords(keyId)
+}
+/**
+ * Represent the short authentication string of a key agreement (see SymmetricKey.unconfirmedSas) as safety words.
+ */
+export function sasToSafetyWords(sas: string): string[] {
+  return hexToSafetyWords(sas)
+}
+
+function safetyWordsToKeyId(words: string[]): KeyId | null {
+  let keyId = ''
+  for (const word of words) {
+    const index = SAFETY_WORDS.indexOf(word)
+    if (index === -1) {
+      return null
+    }
+    keyId += index.toString(16).padStart(2, '0')
+  }
+  return KEY_ID_REGEX.test(keyId) ? keyId : null
+}
+
+/**
+ * Parse a verification code provided by the user, i.e., a key id, the safety words of a key id, or the payload of a verification QR code.
+ * Returns null if the code is invalid.
+ */
+export function parseVerificationCode(code: string): KeyId | null {
+  code = code.trim().toLowerCase()
+  if (code.startsWith(QR_PAYLOAD_PREFIX)) {
+    code = code.slice(QR_PAYLOAD_PREFIX.length)
+  }
+  const compactCode = code.replace(/[\s:-]/g, '')
+  if (KEY_ID_REGEX.test(compactCode)) {
+    return compactCode
+  }
+  return safetyWordsToKeyId(code.split(/[\s,-]+/))
+}
+
+/**
+ * Render the verification QR code of a key id as data URL.
+ */
+export async function renderVerificationQrCode(keyId: KeyId): Promise<string> {
+  return await QRCode.toDataURL(QR_PAYLOAD_PREFIX + keyId, {
+    errorCorrectionLevel: 'M',
+    margin: 2,
+    width: 200,
+  })
+}
+
+/**
+ * Scan a verification QR code from an image, e.g., a photo or a screenshot of the QR code shown by the key owner.
+ * Returns null if the image contains no valid verification QR code.
+ */
+export async function scanVerificationQrCode(image: Blob): Promise<KeyId | null> {
+  let bitmap: ImageBitmap
+  try {
+    bitmap = await createImageBitmap(image)
+  } catch {
+    return null
+  }
+  const canvas = new OffscreenCanvas(bitmap.width, bitmap.height)
+  const context = canvas.getContext('2d')!
+  context.drawImage(bitmap, 0, 0)
+  const imageData = context.getImageData(0, 0, bitmap.width, bitmap.height)
+  bitmap.close()
+
+  const qrCode = jsQR(imageData.data, imageData.width, imageData.height)
+  if (qrCode === null || !qrCode.data.startsWith(QR_PAYLOAD_PREFIX)) {
+    return null
+  }
+  return parseVerificationCode(qrCode.data)
+}
\ No newline at end of file
@@ -0,0 +1,115 @@
+import { BDPParameterError } from './errors'
+
+/**
+ * Origin policy of keys. Every key lists the origins it may be used on (allowedOrigins), each being one of:
+ * - '*': any origin
+ * - an origin, e.g., https://example.com or http://localhost:8000
+ * - an origin with a wildcard subdomain, e.g., https://*.example.com, which matches all subdomains of example.com, but not example.com itself
+ * Regardless of the allowed origins, keys are never used on insecure origins, i.e., plain http:// origins other than the local host.
+ * All checks whether a key may be used on an origin have to use isOriginAllowed.
+ */
+
+export const ANY_ORIGIN = '*'
+// origin of values that are only used within the extension, e.g., the wrapped keys of exported keys
+export const INTERNAL_ORIGIN = ''
+
+const LOCAL_HOSTNAMES = ['localhost', '127.0.0.1', '[::1]']
+const DEFAULT_PORTS: { [scheme: string]: string } = {
+  http: '80',
+  https: '443',
+}
+
+interface OriginPattern {
+  scheme: string
+  // the host without the wildcard label
+  host: string
+  wildcardSubdomain: boolean
+  // empty for the default port of the scheme
+  port: string
+}
+
+const ORIGIN_PATTERN_REGEX = /^(https?):\/\/(\*\.)?([a-z0-9-]+(?:\.[a-z0-9-]+)*|\[[0-9a-f:.]+\])(?::(\d{1,5}))?$/
+
+function parseOriginPattern(pattern: string): OriginPattern | null {
+  const match = ORIGIN_PATTERN_REGEX.exec(pattern.toLowerCase())
+  if (match === null) {
+    return null
+  }
+  const port = match[4] ?? ''
+  return {
+    scheme: match[1],
+    host: match[3],
+    wildcardSubdomain: match[2] !== undefined,
+    port: port === DEFAULT_PORTS[match[1]] ? '' : port,
+  }
+}
+
+/**
+ * Check the entries of a key's allowed origins, e.g., when a key is generated. Throws a BDPParameterError for invalid entries.
+ */
+export function validateAllowedOrigins(allowedOrigins: string[]) {
+  if (allowedOrigins.length === 0) {
+    throw new BDPParameterError('At least one allowed origin is required.')
+  }
+  for (const pattern of allowedOrigins) {
+    if (pattern === ANY_ORIGIN) {
+      continue
+    }
+    const parsedPattern = parseOriginPattern(pattern)
+    if (parsedPattern === null) {
+      throw new BDPParameterError(`The allowed origin '${pattern}' is invalid. Expected an origin like https://example.com, optionally with a wildcard subdomain (https://*.example.com), or * for any origin.`)
+    }
+    if (parsedPattern.wildcardSubdomain && !parsedPattern.host.includes('.')) {
+      throw new BDPParameterError(`The allowed origin '${pattern}' matches too many origins. Wildcards are only allowed for subdomains of a registered domain.`)
+    }
+  }
+}
+
+/**
+ * Whether the origin is secure enough to use keys on, i.e., it uses https or is the local host.
+ */
+export function isSecureOrigin(origin: string): boolean {
+  let url: URL
+  try {
+    url = new URL(origin)
+  } catch {
+    return false
+  }
+  if (url.protocol === 'https:') {
+    return true
+  }
+  return url.protocol === 'http:' && (LOCAL_HOSTNAMES.includes(url.hostname) || url.hostname.endsWith('.localhost'))
+}
+
+export function matchesOriginPattern(origin: string, pattern: string): boolean {
+  if (pattern === ANY_ORIGIN) {
+    return true
+  }
+  const parsedPattern = parseOriginPattern(pattern)
+  if (parsedPattern === null) {
+    return false
+  }
+  let url: URL
+  try {
+    url = new URL(origin)
+  } catch {
+    return false
+  }
+  if (url.protocol !== `${parsedPattern.scheme}:` || url.port !== parsedPattern.port) {
+    return false
+  }
+  if (parsedPattern.wildcardSubdomain) {
+    return url.hostname.endsWith(`.${parsedPattern.host}`)
+  }
+  return url.hostname === parsedPattern.host
+}
+
+/**
+ * Whether a key with the allowed origins may be used on the origin.
+ */
+export function isOriginAllowed(allowedOrigins: string[], origin: string): boolean {
+  if (origin === INTERNAL_ORIGIN) {
+    return allowedOrigins.includes(ANY_ORIGIN)
+  }
+  return isSecureOrigin(origin) && allowedOrigins.some(pattern => matchesOriginPattern(origin, pattern))
+}
\ No newline at end of file
@@ -0,0 +1,153 @@
+import { argon2id } from 'hash-wasm'
+
+/**
+ * Password keys, the vault and backups derive their AES key from a password with a key derivation function (KDF).
+ * The KDF and its parameters are stored with every password key and named in every ciphertext, so the parameters can be raised
+ * over time without breaking existing values. Argon2id is computed by a bundled WebAssembly implementation, PBKDF2 by WebCrypto.
+ */
+
+export interface Pbkdf2Parameters {
+  name: 'PBKDF2'
+  hash: 'SHA-512'
+  iterations: number
+}
+export interface Argon2idParameters {
+  name: 'Argon2id'
+  // memory cost in KiB
+  memorySize: number
+  iterations: number
+  parallelism: number
+}
+export type PasswordKdfParameters = Pbkdf2Parameters | Argon2idParameters
+
+// used for new password keys, vaults and backups
+export const DEFAULT_PASSWORD_KDF: PasswordKdfParameters = {
+  name: 'Argon2id',
+  memorySize: 65536,
+  iterations: 3,
+  parallelism: 1,
+}
+// used before the KDF was configurable, i.e., for unversioned ciphertexts and password keys stored without parameters
+export const LEGACY_PASSWORD_KDF: PasswordKdfParameters = {
+  name: 'PBKDF2',
+  hash: 'SHA-512',
+  iterations: 250000,
+}
+
+/**
+ * The minimum strength of the parameters of new password keys (following the OWASP recommendations).
+ * Existing keys with weaker parameters can still be used to decrypt, but are upgraded, see KeyStore.decryptWithPasswordKey.
+ */
+export const PASSWORD_KDF_POLICY = {
+  PBKDF2: { minIterations: 210000 },
+  Argon2id: { minMemorySize: 19456, minIterations: 2 },
+}
+
+// Upper bounds of accepted parameters, as ciphertexts provided by the web application could otherwise make the derivation expensive enough
+// to hang or crash the extension page. They allow some headroom above the strongest parameters the extension emits (DEFAULT_PASSWORD_KDF, LEGACY_PASSWORD_KDF).
+const MAX_PBKDF2_ITERATIONS = 1000000
+const MAX_ARGON2ID_MEMORY_SIZE = 262144
+const MAX_ARGON2ID_ITERATIONS = 10
+const MAX_ARGON2ID_PARALLELISM = 4
+
+function isIntegerInRange(value: any, min: number, max: number): value is number {
+  return Number.isSafeInteger(value) && value >= min && value <= max
+}
+
+/**
+ * Parse untrusted KDF parameters, e.g., of a ciphertext or a backup. Returns null if the parameters are not supported.
+ */
+export function parsePasswordKdf(kdf: any): PasswordKdfParameters | null {
+  if (typeof kdf !== 'object' || kdf === null) {
+    return null
+  }
+  if (kdf.name === 'PBKDF2' && kdf.hash === 'SHA-512' && isIntegerInRange(kdf.iterations, 1, MAX_PBKDF2_ITERATIONS)) {
+    return {
+      name: kdf.name,
+      hash: kdf.hash,
+      iterations: kdf.iterations,
+    }
+  }
+  if (kdf.name === 'Argon2id' && isIntegerInRange(kdf.parallelism, 1, MAX_ARGON2ID_PARALLELISM)
+    && isIntegerInRange(kdf.memorySize, 8 * kdf.parallelism, MAX_ARGON2ID_MEMORY_SIZE)
+    && isIntegerInRange(kdf.iterations, 1, MAX_ARGON2ID_ITERATIONS)) {
+    return {
+      name: kdf.name,
+      memorySize: kdf.memorySize,
+      iterations: kdf.iterations,
+      parallelism: kdf.parallelism,
+    }
+  }
+  return null
+}
+
+/**
+ * Whether the parameters are strong enough to be used for new password keys, see PASSWORD_KDF_POLICY.
+ */
+export function meetsPasswordKdfPolicy(kdf: PasswordKdfParameters): boolean {
+  if (kdf.name === 'PBKDF2') {
+    return kdf.iterations >= PASSWORD_KDF_POLICY.PBKDF2.minIterations
+  }
+  return kdf.memorySize >= PASSWORD_KDF_POLICY.Argon2id.minMemorySize && kdf.iterations >= PASSWORD_KDF_POLICY.Argon2id.minIterations
+}
+
+/**
+ * Whether both parameters describe the same derivation.
+ */
+export function isSamePasswordKdf(a: PasswordKdfParameters, b: PasswordKdfParameters): boolean {
+  return JSON.stringify(parsePasswordKdf(a)) === JSON.stringify(parsePasswordKdf(b))
+}
+
+/**
+ * A short human-readable description of the parameters, e.g., for the key details.
+ */
+export function describePasswordKdf(kdf: PasswordKdfParameters): string {
+  if (kdf.name === 'PBKDF2') {
+    return `PBKDF2-${kdf.hash} with ${kdf.iterations} iterations`
+  }
+  return `Argon2id with ${kdf.memorySize / 1024} MiB memory, ${kdf.iterations} iterations and parallelism ${kdf.parallelism}`
+}
+
+/**
+ * Derive an AES-GCM key from a password.
+ */
+export async function derivePasswordKey(password: string, salt: ArrayBuffer, kdf: PasswordKdfParameters): Promise<CryptoKey> {
+  let keyData: ArrayBuffer
+  if (kdf.name === 'Argon2id') {
+    const hash = await argon2id({
+      password,
+      salt: new Uint8Array(salt),
+      memorySize: kdf.memorySize,
+      iterations: kdf.iterations,
+      parallelism: kdf.parallelism,
+      hashLength: 32,
+      outputType: 'binary',
+    })
+    keyData = hash.slice().buffer
+  } else {
+    const passwordKey = await crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode(password),
+      'PBKDF2',
+      false,
+      ['deriveBits'],
+    )
+    keyData = await crypto.subtle.deriveBits(
+      {
+        name: kdf.name,
+        salt,
+        iterations: kdf.iterations,
+        hash: kdf.hash,
+      },
+      passwordKey,
+      256,
+    )
+  }
+  return await crypto.subtle.importKey(
+    'raw',
+    keyData,
+    'AES-GCM',
+    true,
+    ['encrypt', 'decrypt'],
+  )
+}
\ No newline at end of file
@@ -0,0 +1,64 @@
+import { PasswordPolicy } from './ProtectedFieldOptions'
+
+/**
+ * Requirements for new passwords in the password protection mode. The extension has its own minimum requirements.
+ * Web applications may provide a stricter policy for a field (see ProtectedFieldOptions.passwordPolicy), but can never relax the extension's minimum.
+ * Passwords of existing values are not checked, as the user cannot choose them anymore.
+ */
+
+export const EXTENSION_PASSWORD_POLICY: Required<PasswordPolicy> = {
+  minScore: 1,
+  minLength: 8,
+}
+
+// the maximum values of a policy, as validated by the API (see validateOptions in api.ts)
+const MAX_MIN_SCORE = 4
+const MAX_MIN_LENGTH = 128
+
+function isPolicyValue(value: unknown, max: number): value is number {
+  return Number.isInteger(value) && (value as number) >= 0 && (value as number) <= max
+}
+
+/**
+ * Validate the policy of a field. The options are validated by the API within the web application's context (MAIN world),
+ * so they need to be validated again within the extension.
+ */
+export function isValidPasswordPolicy(policy: unknown): policy is PasswordPolicy | undefined {
+  if (policy === undefined) {
+    return true
+  }
+  if (typeof policy !== 'object' || policy === null) {
+    return false
+  }
+  const { minScore, minLength } = policy as PasswordPolicy
+  return (minScore === undefined || isPolicyValue(minScore, MAX_MIN_SCORE)) && (minLength === undefined || isPolicyValue(minLength, MAX_MIN_LENGTH))
+}
+
+/**
+ * Combine the policy of a field with the extension's minimum requirements, using the stricter requirement of both.
+ * Invalid values of the field policy are ignored, so they can never relax the extension's minimum requirements.
+ */
+export function getEffectivePasswordPolicy(fieldPolicy?: PasswordPolicy): Required<PasswordPolicy> {
+  const minScore = isPolicyValue(fieldPolicy?.minScore, MAX_MIN_SCORE) ? fieldPolicy!.minScore! : 0
+  const minLength = isPolicyValue(fieldPolicy?.minLength, MAX_MIN_LENGTH) ? fieldPolicy!.minLength! : 0
+  return {
+    minScore: Math.max(EXTENSION_PASSWORD_POLICY.minScore, minScore),
+    minLength: Math.max(EXTENSION_PASSWORD_POLICY.minLength, minLength),
+  }
+}
+
+/**
+ * Check a password against a policy. The score is the zxcvbn score of the password.
+ * @returns The requirements that the password does not meet, empty if it meets the policy.
+ */
+export function checkPasswordPolicy(password: string, score: number, policy: Required<PasswordPolicy>): string[] {
+  const violations: string[] = []
+  // count code points, not UTF-16 code units
+  if ([...password].length < policy.minLength) {
+    violations.push(`The password needs to have at least ${policy.minLength} characters.`)
+  }
+  if (score < policy.minScore) {
+    violations.push(`The password needs to have a strength of at least ${policy.minScore}/4.`)
+  }
+  return violations
+}
\ No newline at end of file
@@ -1,6 +1,6 @@
 import { Ref, ref } from 'vue'
 import { ProtectedFieldOptions } from './ProtectedFieldOptions'
-import { StoredKey } from './KeyStore'
+import { RecipientKey, StoredKey } from './KeyStore'
 export const activeView: Ref<string> = ref('edit-value')
 
 // used to directly open the key generation form in the key manager
@@ -14,6 +14,8 @@ export const plaintextValue = ref('')
 
 export const previouslyUsedKey: Ref<StoredKey | null> = ref(null)
 export const usedKey: Ref<StoredKey | null> = ref(null)
+// in the recipient protection mode, a value may be encrypted for several recipients. usedKey is then the first of these keys.
+export const usedRecipientKeys: Ref<RecipientKey[]> = ref([])
 
 export const passwordReRequest = ref(false)
 export const reRequestedPassword = ref('')
@@ -23,4 +25,22 @@ export const chosenPasswordStoreKey = ref(true)
 
 // whether the ciphertext provided to the web application is fresh, i.e., the newest changes to the plaintext value are reflected.
 export const ciphertextProvidedToWebApp = ref(false)
-export const ciphertextFresh = ref(true)
\ No newline at end of file
+export const ciphertextFresh = ref(true)
+
+/**
+ * Reset the value edit state, e.g., when another field is selected in the popup.
+ */
+export function resetEditState() {
+  editReady.value = false
+  plaintextValue.value = ''
+  previouslyUsedKey.value = null
+  usedKey.value = null
+  usedRecipientKeys.value = []
+  passwordReRequest.value = false
+  reRequestedPassword.value = ''
+  passwordReRequestError.value = null
+  chosenPassword.value = ''
+  chosenPasswordStoreKey.value = true
+  ciphertextProvidedToWebApp.value = false
+  ciphertextFresh.value = true
+}
\ No newline at end of file
@@ -66,6 +66,19 @@ function closePopup() {
   })
 }
 
+/**
+ * Propagate a changed ciphertext to the extension frame that displays the value of the field (if any).
+ */
+function sendFieldDisplayUpdate(tabId: number, fieldId: number, ciphertextValue: string | null) {
+  chrome.runtime.sendMessage({
+    context: 'bdp',
+    operation: 'updateFieldDisplay',
+    tabId,
+    fieldId,
+    ciphertextValue,
+  })
+}
+
 chrome.tabs.onActivated.addListener(async activeInfo => {
   let state = await stateProm
   if (state.activeTabId !== -1) {
@@ -92,12 +105,30 @@ async function handleStopEdit(tabId: number) {
   updateBadge(tabId)
 }
 
+// Single-page applications navigate using the History API, which does not reload the content script
+chrome.webNavigation.onHistoryStateUpdated.addListener(async details => {
+  if (details.frameId !== 0) {
+    return
+  }
+  // the content script cleans up fields and lists whose elements have been removed
+  chrome.tabs.sendMessage(details.tabId, {
+    context: 'bdp',
+    operation: 'historyStateUpdated',
+  }, {
+    frameId: details.frameId,
+  }).catch((error) => {
+    console.warn(`Error notifying tab ${details.tabId} about navigation: ${error}`)
+  })
+  handleStopEdit(details.tabId)
+})
+
 chrome.runtime.onMessage.addListener(function (message: any, sender: chrome.runtime.MessageSender, sendResponse) {
   (async () => {
     let state = await stateProm
     if (message.context !== 'bdp') {
       return
     }
+    let tabId: number
     if (sender.tab === undefined || sender.tab.id === undefined || sender.origin?.startsWith('chrome-extension://')) {
       // message is from popup/internal page
       switch (message.operation) {
@@ -107,14 +138,69 @@ chrome.runtime.onMessage.addListener(function (message: any, sender: chrome.runt
         case 'updateCiphertext':
           state.updateFieldCiphertext(message.tabId, message.fieldId, message.ciphertextValue)
           await setState(state)
+          sendFieldDisplayUpdate(message.tabId, message.fieldId, message.ciphertextValue)
+          break
+        case 'updateCiphertextFresh':
+          state.updateFieldCiphertextFresh(message.tabId, message.fieldId, message.ciphertextFresh)
+          await setState(state)
+          sendResponse()
+          // propagate change to the content script, which blocks form submissions while the ciphertext is not fresh
+          chrome.tabs.sendMessage(message.tabId, {
+            context: 'bdp',
+            operation: 'updateCiphertextFresh',
+            fieldId: message.fieldId,
+            ciphertextFresh: message.ciphertextFresh,
+          }).catch((error) => {
+            console.warn(`Error updating ciphertext freshness for tab ${message.tabId}: ${error}`)
+          })
           break
         case 'updateOwnPublicKeyId':
           await state.updateFieldPublicKeyData(message.tabId, message.fieldId, undefined, message.ownPublicKeyId)
           await setState(state)
           break
+        case 'getField':
+          // the extension frame is embedded into the tab of the field
+          if (sender.tab?.id === undefined) {
+            throw new Error('getField is only supported from an extension frame')
+          }
+          // the inline editor is only provided for fields the user clicked on, not for editor frames embedded by the web application
+          if (message.view === 'edit') {
+            const tokenValid = state.consumeEditorToken(sender.tab.id, message.fieldId, message.editorToken)
+            await setState(state)
+            if (!tokenValid) {
+              sendResponse(null)
+              break
+            }
+          }
+          sendResponse(await state.getSerializedField(sender.tab.id, message.fieldId))
+          break
+        case 'getList':
+          // the extension frame is embedded into the tab of the list
+          if (sender.tab?.id === undefined) {
+            throw new Error('getList is only supported from an extension frame')
+          }
+          sendResponse(state.getList(sender.tab.id, message.listId))
+          break
+        case 'selectField':
+          // the field was selected from the list of fields in the popup
+          tabId = state.activeTabId
+          state.getStateForTab(tabId).activeFieldId = message.fieldId
+          await setState(state)
+          updateBadge(tabId)
+          sendResponse()
+          chrome.tabs.sendMessage(tabId, {
+            context: 'bdp',
+            operation: 'selectField',
+            fieldId: message.fieldId,
+          }).catch((error) => {
+            console.warn(`Error selecting field for tab ${tabId}: ${error}`)
+          })
+          break
         case 'stopEdit':
-          sendClearAllActiveFields(state.activeTabId)
-          handleStopEdit(state.activeTabId)
+          // the inline editor frame is embedded into the tab of the field, the popup belongs to the active tab
+          tabId = sender.tab?.id ?? state.activeTabId
+          sendClearAllActiveFields(tabId)
+          handleStopEdit(tabId)
           sendResponse()
           break
         default:
@@ -124,6 +210,10 @@ chrome.runtime.onMessage.addListener(function (message: any, sender: chrome.runt
       // message is from the content script
       switch (message.operation) {
         case 'contentScriptReady':
+          // content scripts of (i)frames do not reset the state of their tab
+          if (sender.frameId !== 0) {
+            break
+          }
           state.clearTabState(sender.tab.id)
           await setState(state)
           updateBadge(sender.tab.id)
@@ -131,6 +221,20 @@ chrome.runtime.onMessage.addListener(function (message: any, sender: chrome.runt
 
         case 'fieldCreated':
           await handleFieldCreated(message, sender.tab.id)
+          sendResponse()
+          break
+        case 'fieldDestroyed':
+          state.removeFieldFromTab(sender.tab.id, message.internalProtectedField.fieldId)
+          await setState(state)
+          sendResponse()
+          updateBadge(sender.tab.id)
+          // propagate change to browser action popup
+          chrome.runtime.sendMessage({
+            context: 'bdp',
+            operation: 'fieldDestroyed',
+            tabId: sender.tab.id,
+            fieldId: message.internalProtectedField.fieldId,
+          })
           break
         case 'setFieldCiphertext':
           state.updateFieldCiphertext(sender.tab.id, message.internalProtectedField.fieldId, message.ciphertextValue)
@@ -139,9 +243,36 @@ chrome.runtime.onMessage.addListener(function (message: any, sender: chrome.runt
           chrome.runtime.sendMessage({
             context: 'bdp',
             operation: 'updateCiphertextPopup',
+            tabId: sender.tab.id,
             fieldId: message.internalProtectedField.fieldId,
             ciphertextValue: message.ciphertextValue,
           })
+          sendFieldDisplayUpdate(sender.tab.id, message.internalProtectedField.fieldId, message.ciphertextValue)
+          break
+
+        case 'listCreated':
+          message.internalProtectedList.listTabId = sender.tab.id
+          state.addListToTab(sender.tab.id, message.internalProtectedList)
+          await setState(state)
+          sendResponse()
+          break
+        case 'listDestroyed':
+          state.removeListFromTab(sender.tab.id, message.internalProtectedList.listId)
+          await setState(state)
+          sendResponse()
+          break
+        case 'setListCiphertexts':
+          state.updateListCiphertexts(sender.tab.id, message.internalProtectedList.listId, message.ciphertextValues)
+          await setState(state)
+          sendResponse()
+          // propagate change to the extension frame of the list
+          chrome.runtime.sendMessage({
+            context: 'bdp',
+            operation: 'updateListCiphertexts',
+            tabId: sender.tab.id,
+            listId: message.internalProtectedList.listId,
+            ciphertextValues: message.ciphertextValues,
+          })
           break
 
         case 'setPublicKeyData':
@@ -151,16 +282,34 @@ chrome.runtime.onMessage.addListener(function (message: any, sender: chrome.runt
           chrome.runtime.sendMessage({
             context: 'bdp',
             operation: 'updatePublicKeyData',
+            tabId: sender.tab.id,
             fieldId: message.internalProtectedField.fieldId,
             othersPublicKey: message.othersPublicKey,
             ownPublicKeyId: message.ownPublicKeyId,
           })
           break
+        case 'setGroupKeyData':
+          state.updateFieldGroupKey(sender.tab.id, message.internalProtectedField.fieldId, message.groupKey)
+          await setState(state)
+          // propagate change to browser action popup
+          chrome.runtime.sendMessage({
+            context: 'bdp',
+            operation: 'updateGroupKeyData',
+            tabId: sender.tab.id,
+            fieldId: message.internalProtectedField.fieldId,
+            groupKey: message.groupKey,
+          })
+          break
 
         case 'startEdit':
           state.getStateForTab(sender.tab.id).activeFieldId = message.internalProtectedField.fieldId
           updateBadge(sender.tab.id)
+          let editorToken: string | undefined
+          if (message.internalProtectedField.options.editor === 'inline') {
+            editorToken = state.issueEditorToken(sender.tab.id, message.internalProtectedField.fieldId)
+          }
           await setState(state)
+          sendResponse({ editorToken })
           break
         case 'stopEdit':
           handleStopEdit(sender.tab.id)
@@ -1,10 +1,13 @@
 import InternalProtectedField from "./InternalProtectedField"
-import KeyStore from "./KeyStore"
-import { serializeValue } from "./utils"
+import InternalProtectedList from "./InternalProtectedList"
+import { bufferToHex, serializeValue } from "./utils"
 
 export class TabState {
   activeFieldId: number | null = null
+  // one-time token that allows the inline editor frame to load the field, issued when the user clicks the field, see issueEditorToken
+  editorToken: { fieldId: number, token: string } | null = null
   fields: InternalProtectedField[] = []
+  lists: InternalProtectedList[] = []
 }
 export class State {
   activeTabId = -1
@@ -29,11 +32,47 @@ export class State {
       if (field.othersPublicKey !== undefined) {
         field.othersPublicKey = await serializeValue(field.othersPublicKey)
       }
+      field.othersPublicKeys = await Promise.all(field.othersPublicKeys.map(serializeValue))
       tabState.fields.push(field)
     }
     return tabState
   }
 
+  /**
+   * Serialize a single field of a tab (see getSerializedStateForTab).
+   */
+  async getSerializedField(tabId: number, fieldId: number): Promise<any> {
+    const tabState = await this.getSerializedStateForTab(tabId)
+    const field = tabState.fields.find((field: InternalProtectedField) => field.fieldId === fieldId)
+    if (field === undefined) {
+      throw new Error(`Field ${fieldId} not found`)
+    }
+    return field
+  }
+
+  /**
+   * Issue a token for the inline editor frame of a field. The editor frame is web-accessible, so the web application could embed it
+   * on its own. Only a frame opened by the content script on a click of the user gets the token, which is accepted once, see consumeEditorToken.
+   */
+  issueEditorToken(tabId: number, fieldId: number): string {
+    const token = bufferToHex(crypto.getRandomValues(new Uint8Array(16)).buffer)
+    this.getStateForTab(tabId).editorToken = { fieldId, token }
+    return token
+  }
+
+  /**
+   * Check and invalidate the token of an inline editor frame. Returns whether the token is valid for the field.
+   */
+  consumeEditorToken(tabId: number, fieldId: number, token: unknown): boolean {
+    const tabState = this.getStateForTab(tabId)
+    const editorToken = tabState.editorToken
+    if (editorToken === null || editorToken.fieldId !== fieldId || editorToken.token !== token) {
+      return false
+    }
+    tabState.editorToken = null
+    return true
+  }
+
   clearTabState(tabId: number) {
     delete this.state[tabId]
   }
@@ -45,6 +84,44 @@ export class State {
     this.state[tabId].fields.push(field)
   }
 
+  /**
+   * Remove a destroyed field from a tab. Clears the active field if it is the removed field.
+   */
+  removeFieldFromTab(tabId: number, fieldId: number) {
+    const tabState = this.getStateForTab(tabId)
+    tabState.fields = tabState.fields.filter(field => field.fieldId !== fieldId)
+    if (tabState.activeFieldId === fieldId) {
+      tabState.activeFieldId = null
+    }
+  }
+
+  addListToTab(tabId: number, list: InternalProtectedList) {
+    if (this.state[tabId] === undefined) {
+      this.state[tabId] = this.#emptyTabState()
+    }
+    this.state[tabId].lists.push(list)
+  }
+
+  removeListFromTab(tabId: number, listId: number) {
+    const tabState = this.getStateForTab(tabId)
+    tabState.lists = tabState.lists.filter(list => list.listId !== listId)
+  }
+
+  getList(tabId: number, listId: number): InternalProtectedList {
+    const list = this.getStateForTab(tabId).lists.find(list => list.listId === listId)
+    if (list === undefined) {
+      throw new Error(`List ${listId} not found`)
+    }
+    return list
+  }
+
+  /**
+   * Apply an update to the ciphertexts of a list. Propagation of the values is not handled here.
+   */
+  updateListCiphertexts(tabId: number, listId: number, ciphertextValues: (null | string)[]) {
+    this.getList(tabId, listId).ciphertextValues = ciphertextValues
+  }
+
   /**
    * Apply an update to the ciphertext of a field. Propagation of the value is not handled here.
    */
@@ -56,10 +133,22 @@ export class State {
     field.ciphertextValue = ciphertextValue
   }
 
+  /**
+   * Apply an update to the freshness of a field's ciphertext. Propagation of the value is not handled here.
+   */
+  updateFieldCiphertextFresh(tabId: number, fieldId: number, ciphertextFresh: boolean) {
+    const field = this.state[tabId].fields.find(field => field.fieldId === fieldId)
+    if (field === undefined) {
+      throw new Error(`Field ${fieldId} not found`)
+    }
+    field.ciphertextFresh = ciphertextFresh
+  }
+
   /**
    * Apply an update to other's public key and own public key id of a field. Propagation of the value is not handled here.
    * A value that is undefined is ignored, i.e., the function can be used to set/update only one of the values.
    * It is not possible to clear a value using this function.
+   * In the group-key-agreement distribution mode, other's public key is added to the keys of the participants.
    */
   async updateFieldPublicKeyData(tabId: number, fieldId: number, othersPublicKey?: string, ownPublicKeyId?: string) {
     const field = this.state[tabId].fields.find(field => field.fieldId === fieldId)
@@ -67,21 +156,30 @@ export class State {
       throw new Error(`Field ${fieldId} not found`)
     }
     if (othersPublicKey !== undefined) {
-      try {
-        field.othersPublicKey = await (new KeyStore()).loadOthersKeyAgreementPublicKey(othersPublicKey)
-      } catch {
-        console.warn('Invalid (other\'s) public key received.')
-      }
+      await InternalProtectedField.addOthersPublicKey(field, othersPublicKey)
     }
     if (ownPublicKeyId !== undefined) {
       field.ownPublicKeyId = ownPublicKeyId
     }
   }
 
+  /**
+   * Apply the group key distributed by another participant of a group key agreement to a field. Propagation of the value is not handled here.
+   */
+  updateFieldGroupKey(tabId: number, fieldId: number, groupKey: string) {
+    const field = this.state[tabId].fields.find(field => field.fieldId === fieldId)
+    if (field === undefined) {
+      throw new Error(`Field ${fieldId} not found`)
+    }
+    field.groupKey = groupKey
+  }
+
   #emptyTabState() {
     return {
       activeFieldId: null,
-      fields: []
+      editorToken: null,
+      fields: [],
+      lists: [],
     }
   }
 }
\ No newline at end of file
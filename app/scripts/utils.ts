@@ -84,6 +84,12 @@ export async function serializeValue(value: object): Promise<object> {
   if (result.lastUsed !== undefined && result.lastUsed !== null) {
     result.lastUsed = result.lastUsed.valueOf()
   }
+  if (result.expiresAt !== undefined) {
+    result.expiresAt = result.expiresAt.valueOf()
+  }
+  if (result.revoked !== undefined) {
+    result.revoked = result.revoked.valueOf()
+  }
 
   // CryptoKey
   if ('key' in result) {
@@ -116,6 +122,12 @@ export async function deserializeValue(value: object): Promise<object> {
   if (result.lastUsed !== undefined && result.lastUsed !== null) {
     result.lastUsed = new Date(result.lastUsed)
   }
+  if (result.expiresAt !== undefined) {
+    result.expiresAt = new Date(result.expiresAt)
+  }
+  if (result.revoked !== undefined) {
+    result.revoked = new Date(result.revoked)
+  }
 
   // CryptoKey
   if ('key' in result) {
@@ -0,0 +1,40 @@
+import KeyStore, { RecipientKey, SenderInfo } from './KeyStore'
+import { ProtectedFieldOptions } from './ProtectedFieldOptions'
+import { deserializeValue } from './utils'
+
+/**
+ * Load the public keys of the recipients provided by the web application (direct-plain distribution mode).
+ */
+export async function loadRecipientPublicKeys(options: ProtectedFieldOptions): Promise<RecipientKey[]> {
+  const recipientPublicKeys = options.recipientPublicKeys ?? (options.recipientPublicKey !== undefined ? [options.recipientPublicKey] : [])
+  const recipientKeys: RecipientKey[] = []
+  for (let i = 0; i < recipientPublicKeys.length; i++) {
+    recipientKeys.push(await deserializeValue(JSON.parse(atob(recipientPublicKeys[i]))) as RecipientKey)
+  }
+  return recipientKeys
+}
+
+/**
+ * Decrypt a value for display without any interaction of the user.
+ * Password keys can only be used if they have been stored before.
+ * For the direct-plain distribution mode, the loaded recipient keys may be passed to avoid loading them for every value.
+ * Returns the plaintext and, for the recipient protection mode, the sender of the value, whose status needs to be shown along with the value.
+ * Throws a BDPParameterError if the value cannot be decrypted.
+ */
+export async function decryptForDisplay(ciphertext: string, origin: string, options: ProtectedFieldOptions, keyStore: KeyStore, recipientKeys?: RecipientKey[]): Promise<[string, SenderInfo | null]> {
+  const context = options.context ?? null
+  switch (options.protectionMode) {
+    case 'symmetric':
+      return [(await keyStore.decryptWithSymmetricKey(ciphertext, origin, context))[1], null]
+    case 'password':
+      return [(await keyStore.decryptWithPasswordKey(ciphertext, origin, undefined, undefined, undefined, context))[1], null]
+    case 'recipient':
+      if (options.distributionMode === 'direct-plain' && recipientKeys === undefined) {
+        recipientKeys = await loadRecipientPublicKeys(options)
+      }
+      const [, , plaintext, sender] = await keyStore.decryptWithRecipientKey(ciphertext, origin, recipientKeys, context)
+      return [plaintext, sender]
+    default:
+      throw new Error(`unsupported protection mode ${options.protectionMode}`)
+  }
+}
\ No newline at end of file
@@ -0,0 +1,146 @@
+/**
+ * Type definitions of the API that the BrowserDataProtection extension provides to web applications (window.browserDataProtection).
+ * The API is implemented in app/scripts/api.ts of the extension, which uses these definitions to stay in sync.
+ */
+
+export type ProtectionMode = 'symmetric' | 'password' | 'recipient'
+export type DistributionMode = 'user-only' | 'external' | 'direct-plain' | 'key-agreement' | 'group-key-agreement'
+export type InputType = 'text' | 'textarea' | 'number' | 'date' | 'email' | 'select' | 'file'
+
+/**
+ * Error codes of the errors reported to the web application.
+ * INVALID_OPTIONS, INVALID_ARGUMENT and INVALID_STATE are caused by the web application's use of the API,
+ * the other codes are reported by the extension (e.g., for a ciphertext that cannot be decrypted).
+ */
+export type ErrorCode =
+  | 'INVALID_OPTIONS'
+  | 'INVALID_ARGUMENT'
+  | 'INVALID_STATE'
+  | 'KEY_MISSING'
+  | 'DISALLOWED_KEY'
+  | 'INVALID_CIPHERTEXT'
+  | 'CONTEXT_MISMATCH'
+  | 'INVALID_VALUE'
+  | 'PARAMETER_ERROR'
+  | 'INTERNAL_ERROR'
+
+export interface BDPError extends Error {
+  readonly code: ErrorCode
+}
+
+/**
+ * Requirements for new passwords of a field in the password protection mode.
+ * The extension applies its own minimum requirements as well, a policy can only tighten them.
+ */
+export interface PasswordPolicy {
+  // the minimum zxcvbn score (0 to 4)
+  minScore?: number
+  minLength?: number
+}
+
+export interface ProtectedFieldOptions {
+  protectionMode: ProtectionMode
+  // required for all protection modes except for password
+  distributionMode?: DistributionMode
+  // default: false
+  readOnly?: boolean
+  // default: 'immediate'
+  updateMode?: 'immediate' | 'on-submit'
+  // whether the decrypted value is displayed within the page by the extension, default: false
+  display?: boolean
+  // default: 'popup'
+  editor?: 'popup' | 'inline'
+  // default: 'text'
+  inputType?: InputType
+  // required for the select input type
+  selectOptions?: string[]
+  // ciphertexts are bound to the origin and this context
+  context?: string
+  // identifies the field in the extension's list of fields
+  label?: string
+
+  // for the recipient protection mode in the direct-plain distribution mode
+  recipientPublicKey?: string
+  recipientPublicKeys?: string[]
+  // for the password protection mode
+  passwordPolicy?: PasswordPolicy
+
+  ciphertextChangedCallback?: (ciphertext: string | null) => void
+  ciphertextReencryptedCallback?: (newCiphertext: string, oldCiphertext: string) => void
+  publicKeyProvidedCallback?: (publicKey: string, publicKeyId: string) => void
+  // group-key-agreement distribution mode only, the group key is relayed to the other participants
+  groupKeyProvidedCallback?: (groupKey: string) => void
+  // errors the extension reports for this field, e.g., if the provided ciphertext cannot be decrypted
+  errorCallback?: (error: BDPError) => void
+}
+
+/**
+ * The options of a field after validation, i.e., with defaults applied and without callbacks.
+ */
+export type NormalizedProtectedFieldOptions = Required<Pick<ProtectedFieldOptions, 'protectionMode' | 'readOnly' | 'updateMode' | 'display' | 'editor' | 'inputType'>>
+  & Pick<ProtectedFieldOptions, 'distributionMode' | 'selectOptions' | 'context' | 'label' | 'recipientPublicKey' | 'recipientPublicKeys' | 'passwordPolicy'>
+
+export interface ProtectedField {
+  readonly options: NormalizedProtectedFieldOptions
+  readonly ciphertextValue: string | null
+  setCiphertext(ciphertext: string | null): void
+  clearCiphertext(): void
+  // key-agreement and group-key-agreement distribution modes only, in the latter, the public key of each other participant is provided
+  providePublicKey(othersPublicKey: string, ownPublicKeyId?: string): void
+  // group-key-agreement distribution mode only
+  provideGroupKey(groupKey: string): void
+  // fields are also destroyed once their element is removed from the document
+  readonly destroyed: boolean
+  destroy(): void
+}
+
+export interface ProtectedList {
+  readonly options: NormalizedProtectedFieldOptions
+  readonly ciphertextValues: (string | null)[]
+  setCiphertexts(ciphertexts: (string | null)[]): void
+  clearCiphertexts(): void
+  // lists are also destroyed once their element is removed from the document
+  readonly destroyed: boolean
+  destroy(): void
+}
+
+export interface Capabilities {
+  protectionModes: ProtectionMode[]
+  // the distribution modes and the protection modes that are allowed to use them
+  distributionModes: { mode: DistributionMode, protectionModes: ProtectionMode[] }[]
+  inputTypes: InputType[]
+}
+
+export interface BrowserDataProtection {
+  // version of the API (semantic versioning)
+  readonly version: string
+  readonly capabilities: Capabilities
+  // resolves once the extension is ready to process requests of the web application
+  readonly ready: Promise<void>
+  readonly BDPError: new (code: ErrorCode, message: string) => BDPError
+
+  createProtectedField(element: Element, options: ProtectedFieldOptions): Promise<ProtectedField>
+  createProtectedFile(element: Element, options: Omit<ProtectedFieldOptions, 'inputType' | 'selectOptions' | 'display'>): Promise<ProtectedField>
+  createProtectedList(element: Element, options: Omit<ProtectedFieldOptions, 'editor'>, ciphertexts?: (string | null)[]): Promise<ProtectedList>
+}
+
+/**
+ * Events dispatched on the elements of fields and lists.
+ * Except for bdp-destroyed, these are only dispatched for declarative fields, i.e., elements with data-bdp-* attributes.
+ * Cancel bdp-error events to prevent the error from being logged.
+ */
+export interface ProtectedElementEventMap {
+  'bdp-created': CustomEvent<{ protectedField: ProtectedField }>
+  'bdp-ciphertext-changed': CustomEvent<{ ciphertext: string | null }>
+  'bdp-error': CustomEvent<{ error: BDPError }>
+  'bdp-destroyed': CustomEvent
+}
+
+declare global {
+  interface HTMLElementEventMap extends ProtectedElementEventMap { }
+
+  interface Window {
+    // only available if the extension is installed
+    browserDataProtection?: BrowserDataProtection
+  }
+}
\ No newline at end of file